@@ -0,0 +1,786 @@
+import type { HlsConfig } from './config';
+import type { AbrRuleCombinator, AbrRuleConfig } from './types/abr-rule';
+import type { RandomGenerator } from './utils/random';
+import { isFastMpcTable } from './controller/mpc-solver';
+import type { FastMpcTable } from './controller/mpc-solver';
+import { isPensieveModel } from './controller/pensieve-model';
+import type { PensieveModel } from './controller/pensieve-model';
+import type { AbrStateStorage } from './utils/abr-state-storage';
+
+export type AbrCatchUpConfig = {
+  // Enable LoL+ playback speed control for rules that request it
+  enabled: boolean;
+  // Max playback rate deviation from 1, the rate stays within [1 - playbackRate, 1 + playbackRate]
+  playbackRate: number;
+  // Latency drift (s) from the target tolerated before changing the rate
+  minDrift: number;
+  // Buffer level (s) under which playback is slowed down
+  playbackBufferMin: number;
+  // Latency (s) above which catch-up is disabled, NaN to always allow it
+  latencyThreshold: number;
+  // Target latency (s) used when the playlist does not provide one
+  targetLatency: number;
+};
+
+export type LoLpWeightSelectionMode =
+  | 'manual_weight_selection'
+  | 'random_weight_selection'
+  | 'dynamic_weight_selection';
+
+export type AbrLoLpConfig = {
+  // Target latency (s) of the dynamic weight selector constraints
+  targetLatency: number;
+  // Minimum buffer level (s) of the dynamic weight selector constraints
+  bufferMin: number;
+  // How the SOM distance weights are chosen: fixed manualWeights, random (Xavier) or by the dynamic weight selector
+  weightSelectionMode: LoLpWeightSelectionMode;
+  // [throughput, latency, buffer, switch] weights of the manual mode
+  manualWeights: number[];
+  // Values combined by the dynamic weight selector into candidate weight vectors (valueList.length ^ 4 vectors)
+  weightValueList: number[];
+  // Seed of the generator used for the k-means++ centres and Xavier weights, NaN to use Math.random
+  randomSeed: number;
+  // Generator used instead of the seeded one, e.g. shared with a test harness
+  random: RandomGenerator | null;
+};
+
+export type AbrL2AConfig = {
+  // Optimization horizon: the amount of steps required to achieve convergence
+  horizon: number;
+  // Reactiveness to volatility (abrupt throughput drops), used to re-calibrate the Lagrangian multiplier Q
+  react: number;
+  // Buffer level (s) required to leave the startup state
+  bufferTarget: number;
+};
+
+export type AbrStallionConfig = {
+  // Factor of the throughput standard deviation subtracted from the mean throughput
+  throughputSafetyFactor: number;
+  // Factor of the latency standard deviation added to the mean latency
+  latencySafetyFactor: number;
+  // Number of throughput samples in the sliding window
+  throughputSampleAmount: number;
+  // Number of latency samples in the sliding window
+  latencySampleAmount: number;
+};
+
+export type AbrLlamaConfig = {
+  // Factor applied to both throughput estimates
+  throughputSafetyFactor: number;
+  // Number of samples in the harmonic mean window
+  harmonicMeanSize: number;
+  // Buffer level (s) required to switch up
+  minBufferLevel: number;
+};
+
+export type AbrBolaConfig = {
+  // Buffer level (s) at which BOLA starts to prefer levels above the lowest one, NaN to derive it
+  minimumBuffer: number;
+  // Buffer (s) added to the stable buffer for each level, NaN to derive it
+  minimumBufferPerLevel: number;
+  // Buffer level (s) at which BOLA selects the top level, NaN to derive it from the target latency
+  stableBufferTime: number;
+  // Factor applied to the placeholder buffer at each new fragment
+  placeholderBufferDecay: number;
+  // Share of the buffer-sustainable bitrate allowed by the BOLA-E insufficient buffer cap, NaN to disable it
+  insufficientBufferSafetyFactor: number;
+};
+
+export type AbrMpcConfig = {
+  // Number of parts (or segments) planned ahead, the solver enumerates levels ^ horizon plans
+  horizon: number;
+  // Number of throughput samples in the harmonic mean
+  harmonicMeanSize: number;
+  // Number of past prediction errors whose maximum discounts the prediction (RobustMPC), 0 for plain MPC
+  errorWindowSize: number;
+  // FastMPC decision table solved offline, null to solve online
+  fastMpcTable: FastMpcTable | null;
+};
+
+export type AbrBbaConfig = {
+  // Buffer level (s) up to which the lowest level is loaded
+  reservoir: number;
+  // Buffer range (s) above the reservoir over which the rate grows linearly to the highest level
+  cushion: number;
+  // BBA-2 startup phase driven by the download ratio of the last part, false for BBA-0
+  startupPhase: boolean;
+};
+
+export type AbrPandaConfig = {
+  // Convergence rate (1/s) of the probed bandwidth share, kappa
+  probeConvergenceRate: number;
+  // Additive increase (bps) of the probing, w
+  probeIncrement: number;
+  // Convergence rate (1/s) of the smoothed bandwidth share, alpha
+  smoothingRate: number;
+  // Share of the smoothed bandwidth kept free when switching up, epsilon
+  deadZone: number;
+  // Convergence rate (1/s) of the buffer to minBuffer in the request schedule, beta
+  bufferConvergenceRate: number;
+  // Buffer level (s) targeted by the request schedule
+  minBuffer: number;
+};
+
+export type AbrFestiveConfig = {
+  // Number of throughput samples in the harmonic mean
+  harmonicMeanSize: number;
+  // Share of the harmonic mean throughput the target level may use
+  bandwidthSafetyFactor: number;
+  // Segments to load at level k, times k, before switching up
+  switchUpDelay: number;
+  // Number of past buffered segments whose switches count in the stability score
+  stabilityWindow: number;
+  // Weight of the efficiency score against the stability score, alpha
+  efficiencyWeight: number;
+  // Buffer level (s) the request schedule is randomized around, NaN to derive it from the target latency
+  targetBuffer: number;
+  // Max deviation (s) of the randomized buffer target
+  targetBufferJitter: number;
+  // Seed of the schedule randomization, NaN to use Math.random
+  randomSeed: number;
+};
+
+export type AbrPensieveConfig = {
+  // Actor network, takes precedence over modelUrl
+  model: PensieveModel | null;
+  // URL of the JSON actor network, loaded when the rule is set up
+  modelUrl: string | null;
+};
+
+export type AbrBanditConfig = {
+  // Precision of the Gaussian prior on the reward weights of each level, applied when the levels are set up
+  priorPrecision: number;
+  // Standard deviation scaling the posterior samples, 0 to always exploit the posterior mean
+  explorationScale: number;
+  // Discount of past observations at each new one, 1 to weigh all observations equally
+  forgettingFactor: number;
+  // Share of the buffer the predicted download time of a level may use
+  bufferSafetyFactor: number;
+  // Number of latency samples (one per buffered part or segment) in the latency variance
+  latencyWindowSize: number;
+  // Seed of the posterior sampling, NaN to use Math.random
+  randomSeed: number;
+};
+
+export type AbrQLearningConfig = {
+  // Buffer levels (s) separating the buffer buckets of the state, ascending
+  bufferThresholds: number[];
+  // Latency deviations (s) from the target separating the latency buckets of the state, ascending
+  latencyDeviationThresholds: number[];
+  // Share of the temporal difference applied to a Q-value, alpha
+  learningRate: number;
+  // Weight of the value of the next state, gamma
+  discountFactor: number;
+  // Probability of a random level before any update
+  epsilon: number;
+  // Factor applied to epsilon at each Q-value update
+  epsilonDecay: number;
+  // Floor of the decayed epsilon
+  minEpsilon: number;
+  // Storage the Q-table is read from and saved to under storageKey
+  storage: AbrStateStorage;
+  // Key of the Q-table in storage, null to keep it in memory
+  storageKey: string | null;
+  // Number of Q-value updates between two saves, the table is also saved when the rule is destroyed
+  saveInterval: number;
+  // Seed of the exploration, NaN to use Math.random
+  randomSeed: number;
+};
+
+export type AbrSodaConfig = {
+  // Number of parts (or segments) planned ahead
+  horizon: number;
+  // Weight of the squared relative deviation of the buffer from its target
+  bufferWeight: number;
+  // Weight of the squared quality change of a switch
+  switchWeight: number;
+  // Buffer level (s) targeted, NaN to derive it from the target latency
+  targetBuffer: number;
+};
+
+export type AbrMetaConfig = {
+  // Route decisions to the rule configured for the detected network regime
+  enabled: boolean;
+  // Rules used in each regime
+  stableRule: string;
+  volatileRule: string;
+  degradingRule: string;
+  recoveringRule: string;
+  // Number of bandwidth estimates (one per buffered fragment) the regime is classified on
+  windowSize: number;
+  // Coefficient of variation of the estimates from which the network is volatile
+  volatileThreshold: number;
+  // Relative throughput change over the window from which the network is degrading or recovering
+  trendThreshold: number;
+  // Latency (s) above the target counted as a degradation signal, NaN to ignore latency
+  latencyTolerance: number;
+  // Consecutive identical classifications required to change regime
+  confirmCount: number;
+  // Minimum time (s) between two regime changes
+  minDwellTime: number;
+};
+
+export type AbrSectionsConfig = {
+  abrCatchUp: AbrCatchUpConfig;
+  abrLoLp: AbrLoLpConfig;
+  abrL2A: AbrL2AConfig;
+  abrStallion: AbrStallionConfig;
+  abrLlama: AbrLlamaConfig;
+  abrBola: AbrBolaConfig;
+  abrMpc: AbrMpcConfig;
+  abrBba: AbrBbaConfig;
+  abrPanda: AbrPandaConfig;
+  abrFestive: AbrFestiveConfig;
+  abrPensieve: AbrPensieveConfig;
+  abrBandit: AbrBanditConfig;
+  abrQLearning: AbrQLearningConfig;
+  abrSoda: AbrSodaConfig;
+  abrMeta: AbrMetaConfig;
+};
+
+export type LowLatencyABRConfig = AbrRuleConfig & AbrSectionsConfig;
+
+export type AbrHlsConfig = HlsConfig & LowLatencyABRConfig;
+
+export type AbrConfigUpdate = {
+  [K in keyof AbrSectionsConfig]?: Partial<AbrSectionsConfig[K]>;
+};
+
+export const lowLatencyAbrDefaultConfig: LowLatencyABRConfig = {
+  abrRule: 'LoLp', // used by abr-controller
+  abrRules: {}, // used by abr-controller
+  abrShadowRules: [], // used by abr-controller
+  abrShadowTraceLength: 1000, // used by abr-controller
+  abrSecondaryRules: [], // used by abr-controller
+  abrSwitchRules: {}, // used by abr-controller
+  abrRuleCombinator: 'min', // used by abr-controller
+  abrCatchUp: {
+    enabled: true,
+    playbackRate: 0.3,
+    minDrift: 0.05,
+    playbackBufferMin: 0.5,
+    latencyThreshold: 60,
+    targetLatency: 1.5,
+  },
+  abrLoLp: {
+    targetLatency: 1.5,
+    bufferMin: 0.3,
+    weightSelectionMode: 'dynamic_weight_selection',
+    manualWeights: [0.4, 0.4, 0.4, 0.4],
+    weightValueList: [0.2, 0.4, 0.6, 0.8, 1],
+    randomSeed: NaN,
+    random: null,
+  },
+  abrL2A: {
+    horizon: 4,
+    react: 2,
+    bufferTarget: 1.5,
+  },
+  abrStallion: {
+    throughputSafetyFactor: 1,
+    latencySafetyFactor: 1.25,
+    throughputSampleAmount: 3,
+    latencySampleAmount: 4,
+  },
+  abrLlama: {
+    throughputSafetyFactor: 1,
+    harmonicMeanSize: 10,
+    minBufferLevel: -1,
+  },
+  abrBola: {
+    minimumBuffer: NaN,
+    minimumBufferPerLevel: NaN,
+    stableBufferTime: NaN,
+    placeholderBufferDecay: 0.99,
+    insufficientBufferSafetyFactor: 0.5,
+  },
+  abrMpc: {
+    horizon: 5,
+    harmonicMeanSize: 5,
+    errorWindowSize: 5,
+    fastMpcTable: null,
+  },
+  abrBba: {
+    reservoir: 0.5,
+    cushion: 2,
+    startupPhase: true,
+  },
+  abrPanda: {
+    probeConvergenceRate: 0.14,
+    probeIncrement: 300000,
+    smoothingRate: 0.2,
+    deadZone: 0.15,
+    bufferConvergenceRate: 0.2,
+    minBuffer: 1,
+  },
+  abrFestive: {
+    harmonicMeanSize: 20,
+    bandwidthSafetyFactor: 0.85,
+    switchUpDelay: 1,
+    stabilityWindow: 20,
+    efficiencyWeight: 12,
+    targetBuffer: NaN,
+    targetBufferJitter: 0.25,
+    randomSeed: NaN,
+  },
+  abrPensieve: {
+    model: null,
+    modelUrl: null,
+  },
+  abrBandit: {
+    priorPrecision: 1,
+    explorationScale: 0.2,
+    forgettingFactor: 0.99,
+    bufferSafetyFactor: 1,
+    latencyWindowSize: 10,
+    randomSeed: NaN,
+  },
+  abrQLearning: {
+    bufferThresholds: [0.5, 1, 2, 4],
+    latencyDeviationThresholds: [-0.25, 0.25, 1],
+    learningRate: 0.1,
+    discountFactor: 0.9,
+    epsilon: 0.2,
+    epsilonDecay: 0.995,
+    minEpsilon: 0.01,
+    storage: 'localStorage',
+    storageKey: null,
+    saveInterval: 20,
+    randomSeed: NaN,
+  },
+  abrSoda: {
+    horizon: 5,
+    bufferWeight: 1,
+    switchWeight: 2,
+    targetBuffer: NaN,
+  },
+  abrMeta: {
+    enabled: false,
+    stableRule: 'L2ARule',
+    volatileRule: 'StallionRule',
+    degradingRule: 'LoLp',
+    recoveringRule: 'Llama',
+    windowSize: 8,
+    volatileThreshold: 0.35,
+    trendThreshold: 0.2,
+    latencyTolerance: 1,
+    confirmCount: 3,
+    minDwellTime: 10,
+  },
+};
+
+const lolpWeightSelectionModes: LoLpWeightSelectionMode[] = [
+  'manual_weight_selection',
+  'random_weight_selection',
+  'dynamic_weight_selection',
+];
+
+const ruleCombinators: AbrRuleCombinator[] = ['min', 'max'];
+
+const abrStateStorages: AbrStateStorage[] = ['localStorage', 'indexedDB'];
+
+const metaRuleKeys: Array<keyof AbrMetaConfig> = [
+  'stableRule',
+  'volatileRule',
+  'degradingRule',
+  'recoveringRule',
+];
+
+// keeps the dynamic weight selector grid (length ^ 4 vectors per neuron) affordable at each decision
+const maxWeightValueListLength = 10;
+
+// plans enumerated at each decision grow as levels ^ horizon
+const maxMpcHorizon = 6;
+
+type NumberConstraint = {
+  min?: number;
+  max?: number;
+  // min is excluded from the valid range
+  exclusiveMin?: boolean;
+  integer?: boolean;
+  allowNaN?: boolean;
+};
+
+const abrConfigConstraints: {
+  [K in keyof AbrSectionsConfig]: {
+    [P in keyof AbrSectionsConfig[K]]?: NumberConstraint;
+  };
+} = {
+  abrCatchUp: {
+    playbackRate: { min: 0, max: 1, exclusiveMin: true },
+    minDrift: { min: 0 },
+    playbackBufferMin: { min: 0 },
+    latencyThreshold: { min: 0, allowNaN: true },
+    targetLatency: { min: 0, exclusiveMin: true },
+  },
+  abrLoLp: {
+    targetLatency: { min: 0, exclusiveMin: true },
+    bufferMin: { min: 0 },
+    randomSeed: { min: 0, max: 0xffffffff, integer: true, allowNaN: true },
+  },
+  abrL2A: {
+    horizon: { min: 1 },
+    react: { min: 1 },
+    bufferTarget: { min: 0, exclusiveMin: true },
+  },
+  abrStallion: {
+    throughputSafetyFactor: { min: 0 },
+    latencySafetyFactor: { min: 0 },
+    throughputSampleAmount: { min: 1, integer: true },
+    latencySampleAmount: { min: 1, integer: true },
+  },
+  abrLlama: {
+    throughputSafetyFactor: { min: 0, exclusiveMin: true },
+    harmonicMeanSize: { min: 1, integer: true },
+    minBufferLevel: {},
+  },
+  abrBola: {
+    minimumBuffer: { min: 0, exclusiveMin: true, allowNaN: true },
+    minimumBufferPerLevel: { min: 0, allowNaN: true },
+    stableBufferTime: { min: 0, exclusiveMin: true, allowNaN: true },
+    placeholderBufferDecay: { min: 0, max: 1 },
+    insufficientBufferSafetyFactor: {
+      min: 0,
+      exclusiveMin: true,
+      allowNaN: true,
+    },
+  },
+  abrMpc: {
+    horizon: { min: 1, max: maxMpcHorizon, integer: true },
+    harmonicMeanSize: { min: 1, integer: true },
+    errorWindowSize: { min: 0, integer: true },
+  },
+  abrBba: {
+    reservoir: { min: 0 },
+    cushion: { min: 0, exclusiveMin: true },
+  },
+  abrPanda: {
+    probeConvergenceRate: { min: 0, exclusiveMin: true },
+    probeIncrement: { min: 0 },
+    smoothingRate: { min: 0, exclusiveMin: true },
+    deadZone: { min: 0, max: 1 },
+    bufferConvergenceRate: { min: 0 },
+    minBuffer: { min: 0 },
+  },
+  abrFestive: {
+    harmonicMeanSize: { min: 1, integer: true },
+    bandwidthSafetyFactor: { min: 0, exclusiveMin: true },
+    switchUpDelay: { min: 0 },
+    stabilityWindow: { min: 0, integer: true },
+    efficiencyWeight: { min: 0 },
+    targetBuffer: { min: 0, allowNaN: true },
+    targetBufferJitter: { min: 0 },
+    randomSeed: { min: 0, max: 0xffffffff, integer: true, allowNaN: true },
+  },
+  abrPensieve: {},
+  abrBandit: {
+    priorPrecision: { min: 0, exclusiveMin: true },
+    explorationScale: { min: 0 },
+    forgettingFactor: { min: 0, max: 1, exclusiveMin: true },
+    bufferSafetyFactor: { min: 0, exclusiveMin: true },
+    latencyWindowSize: { min: 1, integer: true },
+    randomSeed: { min: 0, max: 0xffffffff, integer: true, allowNaN: true },
+  },
+  abrQLearning: {
+    learningRate: { min: 0, max: 1, exclusiveMin: true },
+    discountFactor: { min: 0, max: 1 },
+    epsilon: { min: 0, max: 1 },
+    epsilonDecay: { min: 0, max: 1, exclusiveMin: true },
+    minEpsilon: { min: 0, max: 1 },
+    saveInterval: { min: 1, integer: true },
+    randomSeed: { min: 0, max: 0xffffffff, integer: true, allowNaN: true },
+  },
+  abrSoda: {
+    horizon: { min: 1, integer: true },
+    bufferWeight: { min: 0 },
+    switchWeight: { min: 0 },
+    targetBuffer: { min: 0, exclusiveMin: true, allowNaN: true },
+  },
+  abrMeta: {
+    windowSize: { min: 2, integer: true },
+    volatileThreshold: { min: 0, exclusiveMin: true },
+    trendThreshold: { min: 0, exclusiveMin: true },
+    latencyTolerance: { min: 0, allowNaN: true },
+    confirmCount: { min: 1, integer: true },
+    minDwellTime: { min: 0 },
+  },
+};
+
+/**
+ * Fills the low-latency ABR sections of an hls config with their defaults and validates them.
+ * The sections are copied so that they can be updated at runtime without altering the defaults.
+ * @param {HlsConfig} config
+ * @return {AbrHlsConfig}
+ */
+export function mergeAbrConfig(
+  config: HlsConfig & Partial<LowLatencyABRConfig>
+): AbrHlsConfig {
+  const abrConfig = config as AbrHlsConfig;
+  abrConfig.abrRule = config.abrRule || lowLatencyAbrDefaultConfig.abrRule;
+  abrConfig.abrRules = config.abrRules || {};
+  abrConfig.abrShadowRules = Array.isArray(config.abrShadowRules)
+    ? config.abrShadowRules.slice()
+    : lowLatencyAbrDefaultConfig.abrShadowRules.slice();
+  abrConfig.abrShadowTraceLength =
+    config.abrShadowTraceLength ??
+    lowLatencyAbrDefaultConfig.abrShadowTraceLength;
+  abrConfig.abrSecondaryRules = Array.isArray(config.abrSecondaryRules)
+    ? config.abrSecondaryRules.slice()
+    : lowLatencyAbrDefaultConfig.abrSecondaryRules.slice();
+  abrConfig.abrSwitchRules = config.abrSwitchRules || {};
+  abrConfig.abrRuleCombinator =
+    config.abrRuleCombinator || lowLatencyAbrDefaultConfig.abrRuleCombinator;
+  validateShadowConfig(abrConfig);
+  validatePipelineConfig(abrConfig);
+  getSectionNames().forEach((section) =>
+    assignSection(
+      abrConfig,
+      section,
+      lowLatencyAbrDefaultConfig[section],
+      config[section]
+    )
+  );
+  const { abrLoLp } = abrConfig;
+  if (Array.isArray(abrLoLp.manualWeights)) {
+    abrLoLp.manualWeights = abrLoLp.manualWeights.slice();
+  }
+  if (Array.isArray(abrLoLp.weightValueList)) {
+    abrLoLp.weightValueList = abrLoLp.weightValueList.slice();
+  }
+  const { abrQLearning } = abrConfig;
+  if (Array.isArray(abrQLearning.bufferThresholds)) {
+    abrQLearning.bufferThresholds = abrQLearning.bufferThresholds.slice();
+  }
+  if (Array.isArray(abrQLearning.latencyDeviationThresholds)) {
+    abrQLearning.latencyDeviationThresholds =
+      abrQLearning.latencyDeviationThresholds.slice();
+  }
+  validateAbrConfig(abrConfig);
+  return abrConfig;
+}
+
+/**
+ * Applies a partial update to the low-latency ABR sections of a merged config.
+ * The update is validated before any value is changed; values are read at each decision so it takes effect immediately.
+ * @param {AbrHlsConfig} config
+ * @param {AbrConfigUpdate} update
+ */
+export function updateAbrConfig(config: AbrHlsConfig, update: AbrConfigUpdate) {
+  const candidate = {} as AbrSectionsConfig;
+  getSectionNames().forEach((section) =>
+    assignSection(candidate, section, config[section], update[section])
+  );
+  validateAbrConfig(candidate);
+  getSectionNames().forEach((section) => {
+    if (update[section]) {
+      Object.assign(config[section], update[section]);
+    }
+  });
+}
+
+/**
+ * Sets a section of the target to a copy of its base values with the update applied
+ * @param {AbrSectionsConfig} target
+ * @param {string} section
+ * @param {object} base
+ * @param {object} [update]
+ */
+function assignSection<K extends keyof AbrSectionsConfig>(
+  target: AbrSectionsConfig,
+  section: K,
+  base: AbrSectionsConfig[K],
+  update: Partial<AbrSectionsConfig[K]> | undefined
+) {
+  target[section] = Object.assign({}, base, update);
+}
+
+function getSectionNames(): Array<keyof AbrSectionsConfig> {
+  return Object.keys(abrConfigConstraints) as Array<keyof AbrSectionsConfig>;
+}
+
+function validateAbrConfig(config: AbrSectionsConfig) {
+  getSectionNames().forEach((section) => {
+    const constraints = abrConfigConstraints[section];
+    const values = config[section];
+    Object.keys(constraints).forEach((key) => {
+      const value = values[key];
+      const constraint: NumberConstraint = constraints[key];
+      if (
+        typeof value !== 'number' ||
+        (isNaN(value) && !constraint.allowNaN) ||
+        (!isNaN(value) && !isValidNumber(value, constraint))
+      ) {
+        throw new Error(
+          `Illegal hls.js config: "${section}.${key}" is ${value}, expected ${describeConstraint(
+            constraint
+          )}`
+        );
+      }
+    });
+  });
+  if (typeof config.abrCatchUp.enabled !== 'boolean') {
+    throw new Error(
+      'Illegal hls.js config: "abrCatchUp.enabled" must be a boolean'
+    );
+  }
+  const { weightSelectionMode, manualWeights, weightValueList, random } =
+    config.abrLoLp;
+  if (lolpWeightSelectionModes.indexOf(weightSelectionMode) === -1) {
+    throw new Error(
+      `Illegal hls.js config: "abrLoLp.weightSelectionMode" is ${weightSelectionMode}, expected one of ${lolpWeightSelectionModes.join(
+        ', '
+      )}`
+    );
+  }
+  if (!isNumberList(manualWeights, 4, 4)) {
+    throw new Error(
+      'Illegal hls.js config: "abrLoLp.manualWeights" must be 4 numbers >= 0 [throughput, latency, buffer, switch]'
+    );
+  }
+  if (!isNumberList(weightValueList, 1, maxWeightValueListLength)) {
+    throw new Error(
+      `Illegal hls.js config: "abrLoLp.weightValueList" must be 1 to ${maxWeightValueListLength} numbers >= 0`
+    );
+  }
+  if (random !== null && typeof random !== 'function') {
+    throw new Error(
+      'Illegal hls.js config: "abrLoLp.random" must be a function or null'
+    );
+  }
+  const { fastMpcTable } = config.abrMpc;
+  if (fastMpcTable !== null && !isFastMpcTable(fastMpcTable)) {
+    throw new Error(
+      'Illegal hls.js config: "abrMpc.fastMpcTable" must be a FastMPC decision table or null'
+    );
+  }
+  if (typeof config.abrBba.startupPhase !== 'boolean') {
+    throw new Error(
+      'Illegal hls.js config: "abrBba.startupPhase" must be a boolean'
+    );
+  }
+  const { model, modelUrl } = config.abrPensieve;
+  if (model !== null && !isPensieveModel(model)) {
+    throw new Error(
+      'Illegal hls.js config: "abrPensieve.model" must be a Pensieve actor network or null'
+    );
+  }
+  if (modelUrl !== null && (typeof modelUrl !== 'string' || !modelUrl)) {
+    throw new Error(
+      'Illegal hls.js config: "abrPensieve.modelUrl" must be a URL or null'
+    );
+  }
+  const { abrQLearning } = config;
+  (['bufferThresholds', 'latencyDeviationThresholds'] as const).forEach(
+    (key) => {
+      if (!isAscendingList(abrQLearning[key])) {
+        throw new Error(
+          `Illegal hls.js config: "abrQLearning.${key}" must be ascending numbers`
+        );
+      }
+    }
+  );
+  if (abrStateStorages.indexOf(abrQLearning.storage) === -1) {
+    throw new Error(
+      `Illegal hls.js config: "abrQLearning.storage" is ${
+        abrQLearning.storage
+      }, expected one of ${abrStateStorages.join(', ')}`
+    );
+  }
+  const { storageKey } = abrQLearning;
+  if (storageKey !== null && (typeof storageKey !== 'string' || !storageKey)) {
+    throw new Error(
+      'Illegal hls.js config: "abrQLearning.storageKey" must be a key or null'
+    );
+  }
+  const { abrMeta } = config;
+  if (typeof abrMeta.enabled !== 'boolean') {
+    throw new Error(
+      'Illegal hls.js config: "abrMeta.enabled" must be a boolean'
+    );
+  }
+  metaRuleKeys.forEach((key) => {
+    if (typeof abrMeta[key] !== 'string' || !abrMeta[key]) {
+      throw new Error(
+        `Illegal hls.js config: "abrMeta.${key}" must be a rule name`
+      );
+    }
+  });
+}
+
+function validateShadowConfig(config: AbrRuleConfig) {
+  const { abrShadowRules, abrShadowTraceLength } = config;
+  if (!abrShadowRules.every((name) => typeof name === 'string')) {
+    throw new Error(
+      'Illegal hls.js config: "abrShadowRules" must be a list of rule names'
+    );
+  }
+  if (!Number.isInteger(abrShadowTraceLength) || abrShadowTraceLength < 1) {
+    throw new Error(
+      `Illegal hls.js config: "abrShadowTraceLength" is ${abrShadowTraceLength}, expected an integer >= 1`
+    );
+  }
+}
+
+function validatePipelineConfig(config: AbrRuleConfig) {
+  const { abrSecondaryRules, abrRuleCombinator } = config;
+  if (!abrSecondaryRules.every((name) => typeof name === 'string')) {
+    throw new Error(
+      'Illegal hls.js config: "abrSecondaryRules" must be a list of rule names'
+    );
+  }
+  if (ruleCombinators.indexOf(abrRuleCombinator) === -1) {
+    throw new Error(
+      `Illegal hls.js config: "abrRuleCombinator" is ${abrRuleCombinator}, expected one of ${ruleCombinators.join(
+        ', '
+      )}`
+    );
+  }
+}
+
+function isNumberList(
+  list: number[],
+  minLength: number,
+  maxLength: number
+): boolean {
+  return (
+    Array.isArray(list) &&
+    list.length >= minLength &&
+    list.length <= maxLength &&
+    list.every((value) => typeof value === 'number' && value >= 0)
+  );
+}
+
+function isAscendingList(list: number[]): boolean {
+  return (
+    Array.isArray(list) &&
+    list.every(
+      (value, i) =>
+        typeof value === 'number' &&
+        Number.isFinite(value) &&
+        (i === 0 || value > list[i - 1])
+    )
+  );
+}
+
+function isValidNumber(value: number, constraint: NumberConstraint): boolean {
+  const { min, max, exclusiveMin, integer } = constraint;
+  if (integer && !Number.isInteger(value)) {
+    return false;
+  }
+  if (min !== undefined && (exclusiveMin ? value <= min : value < min)) {
+    return false;
+  }
+  return max === undefined || value <= max;
+}
+
+function describeConstraint(constraint: NumberConstraint): string {
+  const { min, max, exclusiveMin, integer, allowNaN } = constraint;
+  let description = integer ? 'an integer' : 'a number';
+  if (min !== undefined) {
+    description += ` ${exclusiveMin ? '>' : '>='} ${min}`;
+  }
+  if (max !== undefined) {
+    description += ` <= ${max}`;
+  }
+  return allowNaN ? `${description} or NaN` : description;
+}
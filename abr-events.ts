@@ -0,0 +1,81 @@
+import type Hls from './hls';
+import type {
+  AbrDecisionData,
+  AbrQoeData,
+  AbrQoeSessionSummary,
+  AbrRuleChangedData,
+  NetworkRegimeChangedData,
+} from './types/abr-events';
+
+/**
+ * Events emitted on the hls event bus by the low-latency ABR controller
+ */
+export enum AbrEvents {
+  // Fired when the active ABR rule is replaced at runtime - data: { abrRule, previousAbrRule, level, bandwidthEstimate }
+  ABR_RULE_CHANGED = 'hlsAbrRuleChanged',
+  // Fired for every next auto level evaluation - data: { abrRule, level, reason, throughput, bufferLevel, latency, candidates, ... }
+  ABR_DECISION = 'hlsAbrDecision',
+  // Fired when the LoL+ QoE of the last loaded segment is computed - data: { sn, level, totalQoe, bitrateWSum, ..., weights }
+  QOE_UPDATED = 'hlsQoeUpdated',
+  // Fired with the session QoE summary when a new source is loaded or the controller is destroyed - data: { segmentCount, averageBitrate, switchCount, stallDuration, totalQoe, ... }
+  QOE_SESSION_SUMMARY = 'hlsQoeSessionSummary',
+  // Fired when the meta-ABR confirms a new network regime - data: { regime, previousRegime, abrRule, throughputMean, throughputCv, throughputTrend, stallCount, latency }
+  NETWORK_REGIME_CHANGED = 'hlsNetworkRegimeChanged',
+}
+
+export interface AbrListeners {
+  [AbrEvents.ABR_RULE_CHANGED]: (
+    event: AbrEvents.ABR_RULE_CHANGED,
+    data: AbrRuleChangedData
+  ) => void;
+  [AbrEvents.ABR_DECISION]: (
+    event: AbrEvents.ABR_DECISION,
+    data: AbrDecisionData
+  ) => void;
+  [AbrEvents.QOE_UPDATED]: (
+    event: AbrEvents.QOE_UPDATED,
+    data: AbrQoeData
+  ) => void;
+  [AbrEvents.QOE_SESSION_SUMMARY]: (
+    event: AbrEvents.QOE_SESSION_SUMMARY,
+    data: AbrQoeSessionSummary
+  ) => void;
+  [AbrEvents.NETWORK_REGIME_CHANGED]: (
+    event: AbrEvents.NETWORK_REGIME_CHANGED,
+    data: NetworkRegimeChangedData
+  ) => void;
+}
+
+/**
+ * Typed view of the hls event emitter for AbrEvents
+ */
+export interface AbrEventEmitter {
+  on<E extends keyof AbrListeners, Context = undefined>(
+    event: E,
+    listener: AbrListeners[E],
+    context?: Context
+  ): void;
+  off<E extends keyof AbrListeners, Context = undefined>(
+    event: E,
+    listener?: AbrListeners[E],
+    context?: Context
+  ): void;
+  trigger<E extends keyof AbrListeners>(
+    event: E,
+    eventObject: Parameters<AbrListeners[E]>[1]
+  ): boolean;
+}
+
+/**
+ * Emits an AbrEvent through the hls event bus
+ * @param {Hls} hls
+ * @param {AbrEvents} event
+ * @param {object} data
+ */
+export function triggerAbrEvent<E extends keyof AbrListeners>(
+  hls: Hls,
+  event: E,
+  data: Parameters<AbrListeners[E]>[1]
+) {
+  (hls as unknown as AbrEventEmitter).trigger(event, data);
+}
@@ -0,0 +1,103 @@
+import { logger } from '../utils/logger';
+import { ABR_NO_CHANGE, AbrSwitchPriority } from '../types/abr-rule';
+import { getQualityForBitrate } from './abr-rules-collection';
+import type {
+  AbrRuleContext,
+  AbrSwitchRequest,
+  AbrSwitchRule,
+} from '../types/abr-rule';
+
+// Port of the dash.js AbandonRequestsRule
+const ABANDON_MULTIPLIER = 1.8;
+// ms after the first byte before a request can be abandoned
+const GRACE_TIME_THRESHOLD = 500;
+const MIN_LENGTH_TO_AVERAGE = 5;
+// buffer (s) above which requests are never abandoned (dash.js stableBufferTime)
+const STABLE_BUFFER_TIME = 12;
+// dash.js abr.bandwidthSafetyFactor
+const BANDWIDTH_SAFETY_FACTOR = 0.9;
+
+export default class AbandonRequestsRule implements AbrSwitchRule {
+  // key of the request being sampled
+  private requestKey: string | null = null;
+  // kbps, throughput of the request at each poll
+  private throughputArray: number[] = [];
+  // request already abandoned, not sampled further
+  private abandonedKey: string | null = null;
+
+  /**
+   * Asks to abandon the loading fragment when it is expected to take more than ABANDON_MULTIPLIER
+   * times its duration to download
+   * @param {AbrRuleContext} context
+   * @return {AbrSwitchRequest}
+   */
+  shouldAbandon(context: AbrRuleContext): AbrSwitchRequest {
+    const { player, fragCurrent, partCurrent, config } = context;
+    const switchRequest: AbrSwitchRequest = {
+      quality: ABR_NO_CHANGE,
+      priority: AbrSwitchPriority.DEFAULT,
+    };
+    if (!fragCurrent) {
+      return switchRequest;
+    }
+    const bufferLevel = player.getBufferInfo(config.maxBufferHole).len;
+    if (bufferLevel > STABLE_BUFFER_TIME) {
+      return switchRequest;
+    }
+    const stats = partCurrent ? partCurrent.stats : fragCurrent.stats;
+    const duration = partCurrent ? partCurrent.duration : fragCurrent.duration;
+    const key = `${fragCurrent.level}-${fragCurrent.sn}-${
+      partCurrent ? partCurrent.index : -1
+    }`;
+    if (!stats.loading.first || key === this.abandonedKey) {
+      return switchRequest;
+    }
+    // setup some init info based on first progress event
+    if (key !== this.requestKey) {
+      this.requestKey = key;
+      this.throughputArray = [];
+    }
+    const bytesLoaded = stats.loaded;
+    const bytesTotal = stats.total;
+    const elapsedTime = player.now() - stats.loading.first;
+    if (bytesLoaded > 0 && elapsedTime > 0) {
+      this.throughputArray.push(Math.round((bytesLoaded * 8) / elapsedTime));
+    }
+    if (
+      this.throughputArray.length < MIN_LENGTH_TO_AVERAGE ||
+      elapsedTime <= GRACE_TIME_THRESHOLD ||
+      !bytesTotal ||
+      bytesLoaded >= bytesTotal
+    ) {
+      return switchRequest;
+    }
+    const measuredBandwidthInKbps = Math.round(
+      this.throughputArray.reduce((a, b) => a + b, 0) /
+        this.throughputArray.length
+    );
+    const estimatedTimeOfDownload =
+      (bytesTotal * 8) / measuredBandwidthInKbps / 1000;
+    if (
+      estimatedTimeOfDownload < duration * ABANDON_MULTIPLIER ||
+      fragCurrent.level === 0
+    ) {
+      return switchRequest;
+    }
+    switchRequest.quality = getQualityForBitrate(
+      player.levels,
+      measuredBandwidthInKbps * 1000 * BANDWIDTH_SAFETY_FACTOR
+    );
+    switchRequest.reason = `measured bandwidth ${measuredBandwidthInKbps} kbps`;
+    this.abandonedKey = key;
+    logger.log(
+      `[AbandonRequestsRule] frag ${fragCurrent.sn} is asking to abandon and switch to quality ${switchRequest.quality}, measured bandwidth was ${measuredBandwidthInKbps} kbps`
+    );
+    return switchRequest;
+  }
+
+  destroy() {
+    this.requestKey = null;
+    this.throughputArray = [];
+    this.abandonedKey = null;
+  }
+}
@@ -0,0 +1,249 @@
+import { PlaylistLevelType } from '../types/loader';
+import { logger } from '../utils/logger';
+import { AbrDecisionReason } from '../types/abr-rule';
+import QoeReward, { getRewardKey } from './qoe-reward';
+import BayesianLinearModel, { predictReward } from './bayesian-linear-model';
+import { createSeededRandom } from '../utils/random';
+import type { FragBufferedData, FragLoadedData } from '../types/events';
+import type { PlayerContext } from '../types/player-context';
+import type { AbrHlsConfig } from '../abr-config';
+import type { RandomGenerator } from '../utils/random';
+import type {
+  AbrRule,
+  AbrRuleContext,
+  AbrRuleDecisionInfo,
+} from '../types/abr-rule';
+
+// For a description of linear Thompson sampling see https://proceedings.mlr.press/v28/agrawal13.html
+
+// bias, throughput over the top bitrate, buffer (s), latency (s), latency variance (s^2)
+const CONTEXT_DIMENSION = 5;
+
+type PendingDecision = {
+  context: number[];
+  // s, buffer level when the level was chosen
+  bufferLevel: number;
+  // sn and part index of the part (or segment) loaded for the decision, empty until loaded
+  key: string;
+};
+
+export default class BanditRule implements AbrRule {
+  private player: PlayerContext;
+  // set at each boundary by update
+  private config!: AbrHlsConfig;
+  // one reward model per level, rebuilt when the ladder changes
+  private arms: BayesianLinearModel[] = [];
+  private armBitrates: number[] = [];
+  // context of the last decision, bound to its part (or segment) once loaded
+  private pending: PendingDecision | null = null;
+  // decisions of the loaded parts (or segments) in load order, rewarded once buffered
+  private loadedDecisions: PendingDecision[] = [];
+  // s, one sample per buffered part (or segment)
+  private latencySamples: number[] = [];
+  private qoeReward: QoeReward = new QoeReward();
+  private random: RandomGenerator = Math.random;
+  private randomSeed: number | undefined;
+  private decisionInfo: AbrRuleDecisionInfo | null = null;
+
+  constructor(player: PlayerContext) {
+    this.player = player;
+  }
+
+  init(context: AbrRuleContext) {
+    this.update(context);
+  }
+
+  destroy() {
+    this.arms = [];
+    this.armBitrates = [];
+    this.pending = null;
+    this.loadedDecisions = [];
+    this.latencySamples = [];
+    this.qoeReward = new QoeReward();
+    this.random = Math.random;
+    this.randomSeed = undefined;
+    this.decisionInfo = null;
+  }
+
+  getDecisionInfo() {
+    return this.decisionInfo;
+  }
+
+  private update(context: AbrRuleContext) {
+    this.player = context.player;
+    this.config = context.config;
+    const { randomSeed } = this.config.abrBandit;
+    if (!Object.is(randomSeed, this.randomSeed)) {
+      this.randomSeed = randomSeed;
+      this.random = isNaN(randomSeed)
+        ? Math.random
+        : createSeededRandom(randomSeed);
+    }
+  }
+
+  /**
+   * Binds the last decision to the loaded part (or segment)
+   * @param {FragLoadedData} data
+   */
+  onFragLoaded(data: FragLoadedData) {
+    const { frag, part } = data;
+    const { pending } = this;
+    if (frag.type !== PlaylistLevelType.MAIN || !pending) {
+      return;
+    }
+    this.pending = null;
+    pending.key = getRewardKey(frag, part);
+    this.loadedDecisions.push(pending);
+  }
+
+  /**
+   * Samples the latency and rewards the arm of the buffered part with its LoL+ QoE, normalized by
+   * the QoE of the top level
+   * @param {FragBufferedData} data
+   */
+  onFragBuffered(data: FragBufferedData) {
+    const { frag, part } = data;
+    const { loadedDecisions, player } = this;
+    if (frag.type !== PlaylistLevelType.MAIN) {
+      return;
+    }
+    this.latencySamples.push(player.isLive ? player.latency : 0);
+    while (
+      this.latencySamples.length > this.config.abrBandit.latencyWindowSize
+    ) {
+      this.latencySamples.shift();
+    }
+    const key = getRewardKey(frag, part);
+    const index = loadedDecisions.findIndex((decision) => decision.key === key);
+    if (index === -1) {
+      return;
+    }
+    // decisions of earlier parts that were never buffered are dropped
+    const pending = loadedDecisions.splice(0, index + 1)[index];
+    const stats = part ? part.stats : frag.stats;
+    const duration = part ? part.duration : frag.duration;
+    const loadTime = stats.loading.end - stats.loading.start;
+    const arm = this.arms[frag.level];
+    if (!(loadTime > 0) || !(duration > 0) || !arm) {
+      return;
+    }
+    const reward = this.qoeReward.getReward(
+      player.levels,
+      frag.level,
+      duration,
+      Math.max(0, loadTime / 1000 - pending.bufferLevel),
+      player.isLive ? player.latency : 0,
+      player.playbackRate
+    );
+    arm.update(
+      pending.context,
+      reward,
+      this.config.abrBandit.forgettingFactor
+    );
+  }
+
+  /**
+   * Returns the level whose reward, predicted with weights drawn from its posterior, is the highest
+   * among the levels expected to download within the buffer
+   * @param {AbrRuleContext} context
+   * @return {number} quality
+   */
+  getNextQuality(context: AbrRuleContext) {
+    this.update(context);
+    const { player, config } = this;
+    const { fragCurrent, partCurrent, currentQuality } = context;
+    const { priorPrecision, explorationScale, bufferSafetyFactor } =
+      config.abrBandit;
+    if (fragCurrent && fragCurrent.type === PlaylistLevelType.AUDIO) {
+      this.decisionInfo = { reason: AbrDecisionReason.UNSUPPORTED_MEDIA };
+      return currentQuality;
+    }
+    const throughput = player.bandwidthEstimate;
+    if (!(throughput > 0)) {
+      this.decisionInfo = { reason: AbrDecisionReason.NO_ESTIMATE };
+      return currentQuality;
+    }
+    const bitrates = player.levels.map((level) => level.bitrate);
+    if (
+      bitrates.length !== this.armBitrates.length ||
+      bitrates.some((bitrate, i) => bitrate !== this.armBitrates[i])
+    ) {
+      if (this.arms.length) {
+        logger.log('[BanditRule] Level ladder changed, resetting the arms');
+      }
+      this.armBitrates = bitrates;
+      this.arms = bitrates.map(
+        () => new BayesianLinearModel(CONTEXT_DIMENSION, priorPrecision)
+      );
+      this.qoeReward.resetLastBitrate();
+    }
+
+    const bufferLevel = player.getBufferInfo(config.maxBufferHole).len;
+    const latency = player.isLive ? player.latency : 0;
+    const latencyVariance = getVariance(this.latencySamples);
+    const armContext = [
+      1,
+      throughput / Math.max(...bitrates),
+      bufferLevel,
+      latency,
+      latencyVariance,
+    ];
+
+    // safety filter: the lowest level is always allowed
+    const duration = partCurrent
+      ? partCurrent.duration
+      : fragCurrent
+      ? fragCurrent.duration
+      : 0;
+    const maxDownloadTime = bufferSafetyFactor * bufferLevel;
+    const candidates = this.arms
+      .map((arm, level) => ({
+        level,
+        bitrate: bitrates[level],
+        score: predictReward(
+          arm.sample(explorationScale, this.random),
+          armContext
+        ),
+      }))
+      .filter(
+        ({ level, bitrate }) =>
+          level === 0 || (bitrate * duration) / throughput <= maxDownloadTime
+      );
+    const quality = candidates.reduce((best, candidate) =>
+      candidate.score > best.score ? candidate : best
+    ).level;
+    this.pending = { context: armContext, bufferLevel, key: '' };
+
+    this.decisionInfo = {
+      reason:
+        quality > currentQuality
+          ? AbrDecisionReason.SWITCH_UP
+          : quality < currentQuality
+          ? AbrDecisionReason.SWITCH_DOWN
+          : AbrDecisionReason.HOLD,
+      scoreType: 'sampled-reward',
+      candidates,
+      details: {
+        throughputKbps: throughput / 1000,
+        bufferLevel,
+        latency,
+        latencyVariance,
+        rejectedArms: bitrates.length - candidates.length,
+        observations: this.arms[quality].observationCount,
+      },
+    };
+    return quality;
+  }
+}
+
+function getVariance(samples: number[]): number {
+  if (!samples.length) {
+    return 0;
+  }
+  const mean =
+    samples.reduce((sum, sample) => sum + sample, 0) / samples.length;
+  return (
+    samples.reduce((sum, sample) => sum + Math.pow(sample - mean, 2), 0) /
+    samples.length
+  );
+}
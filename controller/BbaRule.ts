@@ -0,0 +1,208 @@
+import { PlaylistLevelType } from '../types/loader';
+import { AbrDecisionReason } from '../types/abr-rule';
+import type { FragBufferedData } from '../types/events';
+import type { PlayerContext } from '../types/player-context';
+import type { AbrHlsConfig } from '../abr-config';
+import type {
+  AbrRule,
+  AbrRuleContext,
+  AbrRuleDecisionInfo,
+} from '../types/abr-rule';
+
+// For a description of BBA-0 and BBA-2 see https://doi.org/10.1145/2619239.2626296
+
+// BBA-2 steps up during startup when a part downloads in less than this share of its duration at an
+// empty buffer, the share growing linearly to STARTUP_MAX_DOWNLOAD_RATIO at the end of the cushion
+const STARTUP_MIN_DOWNLOAD_RATIO = 0.125;
+const STARTUP_MAX_DOWNLOAD_RATIO = 0.5;
+
+export default class BbaRule implements AbrRule {
+  private player: PlayerContext;
+  // set at each boundary by update
+  private config!: AbrHlsConfig;
+  // BBA-2 startup phase, left for good once the rate map catches up or the buffer shrinks
+  private startup: boolean = true;
+  // download time over duration of the last buffered part, NaN before the first one
+  private downloadRatio: number = NaN;
+  // buffer level (s) when the last part was buffered, NaN before the first one
+  private lastBufferLevel: number = NaN;
+  // whether the buffer shrank between the last two buffered parts
+  private bufferShrunk: boolean = false;
+  private decisionInfo: AbrRuleDecisionInfo | null = null;
+
+  constructor(player: PlayerContext) {
+    this.player = player;
+  }
+
+  init(context: AbrRuleContext) {
+    this.update(context);
+  }
+
+  destroy() {
+    this.startup = true;
+    this.downloadRatio = this.lastBufferLevel = NaN;
+    this.bufferShrunk = false;
+    this.decisionInfo = null;
+  }
+
+  getDecisionInfo() {
+    return this.decisionInfo;
+  }
+
+  private update(context: AbrRuleContext) {
+    this.player = context.player;
+    this.config = context.config;
+  }
+
+  onFragBuffered(data: FragBufferedData) {
+    const { frag, part } = data;
+    if (frag.type !== PlaylistLevelType.MAIN) {
+      return;
+    }
+    const stats = part ? part.stats : frag.stats;
+    const duration = part ? part.duration : frag.duration;
+    const loadTime = stats.loading.end - stats.loading.start;
+    if (loadTime > 0 && duration > 0) {
+      this.downloadRatio = loadTime / 1000 / duration;
+    }
+    const bufferLevel = this.player.getBufferInfo(
+      this.config.maxBufferHole
+    ).len;
+    this.bufferShrunk = bufferLevel < this.lastBufferLevel;
+    this.lastBufferLevel = bufferLevel;
+  }
+
+  /**
+   * Maps the buffer level to a rate and returns the level for that rate, changing level only
+   * when the rate crosses the bitrate of a neighbouring level
+   * @param {AbrRuleContext} context
+   * @return {number} quality
+   */
+  getNextQuality(context: AbrRuleContext) {
+    this.update(context);
+    const { player, config } = this;
+    const { fragCurrent, currentQuality } = context;
+    const { reservoir, cushion, startupPhase } = config.abrBba;
+    if (fragCurrent && fragCurrent.type === PlaylistLevelType.AUDIO) {
+      this.decisionInfo = { reason: AbrDecisionReason.UNSUPPORTED_MEDIA };
+      return currentQuality;
+    }
+    if (player.seeking) {
+      this.startup = true;
+      this.lastBufferLevel = NaN;
+      this.bufferShrunk = false;
+    }
+    const bitrates = player.levels.map((level) => level.bitrate);
+    const maxQuality = bitrates.length - 1;
+    const previousQuality = Math.min(Math.max(currentQuality, 0), maxQuality);
+    const bufferLevel = player.getBufferInfo(config.maxBufferHole).len;
+    const rate = mapBufferToRate(bitrates, bufferLevel, reservoir, cushion);
+    let quality = selectQualityForRate(bitrates, rate, previousQuality);
+    let reason =
+      quality > previousQuality
+        ? AbrDecisionReason.SWITCH_UP
+        : quality < previousQuality
+        ? AbrDecisionReason.SWITCH_DOWN
+        : AbrDecisionReason.HOLD;
+    if (bufferLevel <= reservoir) {
+      reason = AbrDecisionReason.BUFFER_LOW_DOWNSHIFT;
+    }
+
+    if (startupPhase && this.startup) {
+      if (
+        quality > previousQuality ||
+        this.bufferShrunk ||
+        bufferLevel >= reservoir + cushion
+      ) {
+        // the rate map has caught up, or the startup ramp drained the buffer
+        this.startup = false;
+      } else {
+        // BBA-2: step up one level at a time while parts download fast enough for the buffer to grow
+        const fill = Math.min(1, bufferLevel / (reservoir + cushion));
+        const threshold =
+          STARTUP_MIN_DOWNLOAD_RATIO +
+          (STARTUP_MAX_DOWNLOAD_RATIO - STARTUP_MIN_DOWNLOAD_RATIO) * fill;
+        quality =
+          this.downloadRatio < threshold
+            ? Math.min(previousQuality + 1, maxQuality)
+            : previousQuality;
+        reason = AbrDecisionReason.STARTUP;
+      }
+    }
+    this.decisionInfo = {
+      reason,
+      details: {
+        bufferLevel,
+        mappedRateKbps: rate / 1000,
+        downloadRatio: this.downloadRatio,
+        startup: this.startup ? 1 : 0,
+      },
+    };
+    return quality;
+  }
+}
+
+/**
+ * BBA rate map: the lowest bitrate up to the reservoir, the highest past the cushion, linear in between
+ * @param {number[]} bitrates - bps, lowest first
+ * @param {number} bufferLevel - s
+ * @param {number} reservoir - s
+ * @param {number} cushion - s
+ * @return {number} rate (bps)
+ */
+function mapBufferToRate(
+  bitrates: number[],
+  bufferLevel: number,
+  reservoir: number,
+  cushion: number
+): number {
+  const minRate = bitrates[0];
+  const maxRate = bitrates[bitrates.length - 1];
+  if (bufferLevel <= reservoir) {
+    return minRate;
+  }
+  if (bufferLevel >= reservoir + cushion) {
+    return maxRate;
+  }
+  return minRate + ((maxRate - minRate) * (bufferLevel - reservoir)) / cushion;
+}
+
+/**
+ * BBA-0 level selection: keep the previous level until the rate reaches the bitrate of the level
+ * above or below it, then move to the highest level under (or the lowest level over) the rate
+ * @param {number[]} bitrates - bps, lowest first
+ * @param {number} rate - bps
+ * @param {number} previousQuality
+ * @return {number}
+ */
+function selectQualityForRate(
+  bitrates: number[],
+  rate: number,
+  previousQuality: number
+): number {
+  const maxQuality = bitrates.length - 1;
+  if (rate <= bitrates[0]) {
+    return 0;
+  }
+  if (rate >= bitrates[maxQuality]) {
+    return maxQuality;
+  }
+  const ratePlus =
+    previousQuality < maxQuality ? bitrates[previousQuality + 1] : Infinity;
+  const rateMinus = previousQuality > 0 ? bitrates[previousQuality - 1] : 0;
+  if (rate >= ratePlus) {
+    let quality = previousQuality;
+    while (quality < maxQuality && bitrates[quality + 1] < rate) {
+      quality++;
+    }
+    return quality;
+  }
+  if (rate <= rateMinus) {
+    let quality = previousQuality;
+    while (quality > 0 && bitrates[quality - 1] > rate) {
+      quality--;
+    }
+    return quality;
+  }
+  return previousQuality;
+}
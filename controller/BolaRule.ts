@@ -0,0 +1,586 @@
+import { PlaylistLevelType } from '../types/loader';
+import { logger } from '../utils/logger';
+import { AbrDecisionReason } from '../types/abr-rule';
+import { getQualityForBitrate } from './abr-rules-collection';
+import type { FragBufferedData, FragLoadedData } from '../types/events';
+import type { PlayerContext } from '../types/player-context';
+import type { AbrHlsConfig } from '../abr-config';
+import type {
+  AbrRule,
+  AbrRuleContext,
+  AbrRuleDecisionInfo,
+} from '../types/abr-rule';
+
+// Port of the dash.js BolaRule. For a description of BOLA see https://arxiv.org/abs/1601.06748, and of the BOLA-E
+// placeholder buffer and insufficient buffer changes https://arxiv.org/abs/1804.10713
+
+const BOLA_STATE_ONE_BITRATE = 0;
+const BOLA_STATE_STARTUP = 1;
+const BOLA_STATE_STEADY = 2;
+// dash.js buffer targets, used for VOD playlists
+const VOD_MINIMUM_BUFFER_S = 10;
+const VOD_MINIMUM_BUFFER_PER_LEVEL_S = 2;
+const VOD_STABLE_BUFFER_TIME_S = 12;
+// dash.js abr.bandwidthSafetyFactor
+const BANDWIDTH_SAFETY_FACTOR = 0.9;
+
+interface BolaBufferTargets {
+  minimumBuffer: number;
+  minimumBufferPerLevel: number;
+  stableBufferTime: number;
+}
+
+interface BolaParameters {
+  Vp: number;
+  gp: number;
+}
+
+interface BolaState extends BolaBufferTargets, BolaParameters {
+  state: number;
+  bitrates: number[];
+  utilities: number[];
+  lastQuality: number;
+  placeholderBuffer: number;
+  mostAdvancedSegmentStart: number;
+  lastSegmentWasReplacement: boolean;
+  lastSegmentStart: number;
+  lastSegmentDurationS: number;
+  lastSegmentRequestTimeMs: number;
+  lastSegmentFinishTimeMs: number;
+  lastCallTimeMs: number;
+}
+
+export default class BolaRule implements AbrRule {
+  private player: PlayerContext;
+  // set at each boundary by update
+  private config!: AbrHlsConfig;
+  private bolaState: BolaState | null = null;
+  private decisionInfo: AbrRuleDecisionInfo | null = null;
+
+  constructor(player: PlayerContext) {
+    this.player = player;
+  }
+
+  init(context: AbrRuleContext) {
+    this.update(context);
+  }
+
+  destroy() {
+    this.bolaState = null;
+    this.decisionInfo = null;
+  }
+
+  getDecisionInfo() {
+    return this.decisionInfo;
+  }
+
+  private update(context: AbrRuleContext) {
+    this.player = context.player;
+    this.config = context.config;
+  }
+
+  onFragLoaded(data: FragLoadedData) {
+    const { bolaState } = this;
+    const { frag, part } = data;
+    if (
+      !bolaState ||
+      bolaState.state === BOLA_STATE_ONE_BITRATE ||
+      frag.type !== PlaylistLevelType.MAIN
+    ) {
+      return;
+    }
+    const start = part ? part.start : frag.start;
+    if (
+      isNaN(bolaState.mostAdvancedSegmentStart) ||
+      start > bolaState.mostAdvancedSegmentStart
+    ) {
+      bolaState.mostAdvancedSegmentStart = start;
+      bolaState.lastSegmentWasReplacement = false;
+    } else {
+      bolaState.lastSegmentWasReplacement = true;
+    }
+    bolaState.lastSegmentStart = start;
+    bolaState.lastSegmentDurationS = part ? part.duration : frag.duration;
+    bolaState.lastQuality = frag.level;
+    this.checkNewSegment(bolaState);
+  }
+
+  onFragBuffered(data: FragBufferedData) {
+    const { bolaState } = this;
+    const { frag, part } = data;
+    if (
+      !bolaState ||
+      bolaState.state === BOLA_STATE_ONE_BITRATE ||
+      frag.type !== PlaylistLevelType.MAIN
+    ) {
+      return;
+    }
+    const stats = part ? part.stats : frag.stats;
+    bolaState.lastSegmentRequestTimeMs = stats.loading.start;
+    bolaState.lastSegmentFinishTimeMs = stats.loading.end;
+    this.checkNewSegment(bolaState);
+  }
+
+  onBufferStalled() {
+    // if we rebuffer, we don't want the placeholder buffer to artificially raise BOLA quality
+    const { bolaState } = this;
+    if (bolaState && bolaState.state === BOLA_STATE_STEADY) {
+      bolaState.placeholderBuffer = 0;
+    }
+  }
+
+  /**
+   * Returns the quality level to be played
+   * @param {AbrRuleContext} context
+   * @return {number} quality
+   */
+  getNextQuality(context: AbrRuleContext) {
+    this.update(context);
+    const { player, config } = this;
+    const { fragCurrent, currentQuality } = context;
+    if (fragCurrent && fragCurrent.type === PlaylistLevelType.AUDIO) {
+      this.decisionInfo = { reason: AbrDecisionReason.UNSUPPORTED_MEDIA };
+      return currentQuality;
+    }
+    const bolaState = this.getBolaState(context);
+    if (bolaState.state === BOLA_STATE_ONE_BITRATE) {
+      this.decisionInfo = { reason: AbrDecisionReason.HOLD };
+      return currentQuality;
+    }
+    if (player.seeking) {
+      bolaState.state = BOLA_STATE_STARTUP;
+      clearBolaStateOnSeek(bolaState);
+    }
+    const bufferLevel = player.getBufferInfo(config.maxBufferHole).len;
+    const throughput = player.bandwidthEstimate;
+    if (!Number.isFinite(throughput)) {
+      // still starting up - not enough information
+      this.decisionInfo = { reason: AbrDecisionReason.NO_ESTIMATE };
+      return currentQuality;
+    }
+    const safeThroughput = throughput * BANDWIDTH_SAFETY_FACTOR;
+    const qualityForThroughput = getQualityForBitrate(
+      player.levels,
+      safeThroughput
+    );
+    let quality: number;
+    let reason: AbrDecisionReason;
+    if (bolaState.state === BOLA_STATE_STARTUP) {
+      quality = qualityForThroughput;
+      reason = AbrDecisionReason.STARTUP;
+      bolaState.placeholderBuffer = Math.max(
+        0,
+        minBufferLevelForQuality(bolaState, quality) - bufferLevel
+      );
+      if (
+        !isNaN(bolaState.lastSegmentDurationS) &&
+        bufferLevel >= bolaState.lastSegmentDurationS
+      ) {
+        bolaState.state = BOLA_STATE_STEADY;
+      }
+    } else {
+      // NB: The placeholder buffer is added to bufferLevel to come up with a bitrate.
+      //     If the real buffer runs out, the placeholder buffer cannot prevent rebuffering,
+      //     the insufficient buffer cap below takes care of this scenario.
+      this.updatePlaceholderBuffer(bolaState, context, bufferLevel);
+      quality = getQualityFromBufferLevel(
+        bolaState,
+        bufferLevel + bolaState.placeholderBuffer
+      );
+      reason = AbrDecisionReason.STEADY;
+      // BOLA-O: when the bandwidth lies between two levels, stick to the lowest one to avoid oscillations
+      if (
+        quality > bolaState.lastQuality &&
+        quality > qualityForThroughput
+      ) {
+        quality = Math.max(qualityForThroughput, bolaState.lastQuality);
+      }
+      // dash.js delays the next request by the effective buffer above the level maximum; hls.js loads
+      // on its own schedule, so the excess only drains the placeholder buffer
+      const excess = Math.max(
+        0,
+        bufferLevel +
+          bolaState.placeholderBuffer -
+          maxBufferLevelForQuality(bolaState, quality)
+      );
+      bolaState.placeholderBuffer = Math.max(
+        0,
+        bolaState.placeholderBuffer - excess
+      );
+      // BOLA-E: never select a level whose download would drain the real buffer
+      const { insufficientBufferSafetyFactor } = config.abrBola;
+      if (
+        !isNaN(insufficientBufferSafetyFactor) &&
+        bolaState.lastSegmentDurationS > 0
+      ) {
+        const sustainableQuality = getQualityForBitrate(
+          player.levels,
+          throughput *
+            (bufferLevel / bolaState.lastSegmentDurationS) *
+            insufficientBufferSafetyFactor
+        );
+        if (quality > sustainableQuality) {
+          quality = sustainableQuality;
+          reason = AbrDecisionReason.BUFFER_LOW_DOWNSHIFT;
+        }
+      }
+    }
+    bolaState.lastQuality = quality;
+    this.decisionInfo = {
+      reason,
+      scoreType: 'bola-score',
+      candidates: bolaState.bitrates.map((bitrate, level) => ({
+        level,
+        bitrate,
+        score: getBolaScore(
+          bolaState,
+          level,
+          bufferLevel + bolaState.placeholderBuffer
+        ),
+      })),
+      details: {
+        bufferLevel,
+        placeholderBuffer: bolaState.placeholderBuffer,
+        throughputKbps: throughput / 1000,
+        stableBufferTime: bolaState.stableBufferTime,
+        Vp: bolaState.Vp,
+        gp: bolaState.gp,
+      },
+    };
+    return quality;
+  }
+
+  /**
+   * Returns the state of the algorithm, created again when the level bitrates change
+   * @param {AbrRuleContext} context
+   * @return {BolaState}
+   */
+  private getBolaState(context: AbrRuleContext): BolaState {
+    const bitrates = this.player.levels.map((level) => level.bitrate);
+    const { bolaState } = this;
+    if (
+      bolaState &&
+      bolaState.bitrates.length === bitrates.length &&
+      bolaState.bitrates.every((bitrate, i) => bitrate === bitrates[i])
+    ) {
+      return bolaState;
+    }
+    const utilities = utilitiesFromBitrates(bitrates);
+    const targets = this.getBufferTargets(context, NaN);
+    const params = calculateBolaParameters(targets, utilities);
+    const initialState: BolaState = Object.assign(
+      {
+        state: params ? BOLA_STATE_STARTUP : BOLA_STATE_ONE_BITRATE,
+        bitrates,
+        utilities,
+        lastQuality: 0,
+        placeholderBuffer: 0,
+        mostAdvancedSegmentStart: NaN,
+        lastSegmentWasReplacement: false,
+        lastSegmentStart: NaN,
+        lastSegmentDurationS: NaN,
+        lastSegmentRequestTimeMs: NaN,
+        lastSegmentFinishTimeMs: NaN,
+        lastCallTimeMs: NaN,
+      },
+      targets,
+      params || { Vp: NaN, gp: NaN }
+    );
+    this.bolaState = initialState;
+    return initialState;
+  }
+
+  /**
+   * Returns the abrBola buffer targets, deriving unset ones from the dash.js defaults for VOD, and from the
+   * target latency and the part (or fragment) duration for live playlists
+   * @param {AbrRuleContext} context
+   * @param {number} segmentDuration - duration (s) of the last loaded part or fragment, NaN if unknown
+   * @return {BolaBufferTargets}
+   */
+  private getBufferTargets(
+    context: AbrRuleContext,
+    segmentDuration: number
+  ): BolaBufferTargets {
+    const { player, fragCurrent, partCurrent, config } = context;
+    const { minimumBuffer, minimumBufferPerLevel, stableBufferTime } =
+      config.abrBola;
+    const targetLatency = player.isLive ? player.targetLatency : null;
+    if (!targetLatency) {
+      return {
+        minimumBuffer: isNaN(minimumBuffer)
+          ? VOD_MINIMUM_BUFFER_S
+          : minimumBuffer,
+        minimumBufferPerLevel: isNaN(minimumBufferPerLevel)
+          ? VOD_MINIMUM_BUFFER_PER_LEVEL_S
+          : minimumBufferPerLevel,
+        stableBufferTime: isNaN(stableBufferTime)
+          ? VOD_STABLE_BUFFER_TIME_S
+          : stableBufferTime,
+      };
+    }
+    // the part being published at the live edge cannot be buffered
+    let partDuration = partCurrent
+      ? partCurrent.duration
+      : fragCurrent
+      ? fragCurrent.duration
+      : segmentDuration;
+    if (!(partDuration > 0)) {
+      // three segments at the target latency, as the hls.js live sync default
+      partDuration = targetLatency / 3;
+    }
+    const minimum = isNaN(minimumBuffer) ? partDuration : minimumBuffer;
+    return {
+      minimumBuffer: minimum,
+      minimumBufferPerLevel: isNaN(minimumBufferPerLevel)
+        ? 0
+        : minimumBufferPerLevel,
+      stableBufferTime: isNaN(stableBufferTime)
+        ? Math.max(targetLatency - partDuration, 2 * minimum)
+        : stableBufferTime,
+    };
+  }
+
+  /**
+   * If the buffer targets change, e.g. with the target latency, adjust the BOLA parameters accordingly
+   * @param {BolaState} bolaState
+   * @param {AbrRuleContext} context
+   * @param {number} bufferLevel
+   */
+  private checkBolaStateBufferTargets(
+    bolaState: BolaState,
+    context: AbrRuleContext,
+    bufferLevel: number
+  ) {
+    const targets = this.getBufferTargets(
+      context,
+      bolaState.lastSegmentDurationS
+    );
+    if (
+      targets.minimumBuffer === bolaState.minimumBuffer &&
+      targets.minimumBufferPerLevel === bolaState.minimumBufferPerLevel &&
+      targets.stableBufferTime === bolaState.stableBufferTime
+    ) {
+      return;
+    }
+    const params = calculateBolaParameters(targets, bolaState.utilities);
+    if (!params) {
+      return;
+    }
+    // correct placeholder buffer using two criteria:
+    // 1. do not change effective buffer level at effectiveBufferLevel === minimumBuffer ( === Vp * gp )
+    // 2. scale placeholder buffer by Vp subject to offset indicated in 1.
+    let effectiveBufferLevel = bufferLevel + bolaState.placeholderBuffer;
+    effectiveBufferLevel -= bolaState.minimumBuffer;
+    effectiveBufferLevel *= params.Vp / bolaState.Vp;
+    effectiveBufferLevel += targets.minimumBuffer;
+    Object.assign(bolaState, targets, params);
+    bolaState.placeholderBuffer = Math.max(
+      0,
+      effectiveBufferLevel - bufferLevel
+    );
+    logger.log(
+      `[BolaRule] stable buffer ${targets.stableBufferTime.toFixed(
+        2
+      )}s, Vp ${params.Vp.toFixed(3)}, gp ${params.gp.toFixed(3)}`
+    );
+  }
+
+  /**
+   * The placeholder buffer increases the effective buffer that is used to calculate the bitrate. It compensates
+   * for delays that are not caused by the download itself, e.g. waiting for the next live part to be published,
+   * or decisions taken without a fragment being loaded in between.
+   * @param {BolaState} bolaState
+   * @param {AbrRuleContext} context
+   * @param {number} bufferLevel
+   */
+  private updatePlaceholderBuffer(
+    bolaState: BolaState,
+    context: AbrRuleContext,
+    bufferLevel: number
+  ) {
+    const nowMs = this.player.now();
+    if (!isNaN(bolaState.lastSegmentFinishTimeMs)) {
+      // compensate for non-bandwidth-derived delays, e.g., live streaming availability
+      const delay = 0.001 * (nowMs - bolaState.lastSegmentFinishTimeMs);
+      bolaState.placeholderBuffer += Math.max(0, delay);
+    } else if (!isNaN(bolaState.lastCallTimeMs)) {
+      // no download after last call, compensate for delay between calls
+      const delay = 0.001 * (nowMs - bolaState.lastCallTimeMs);
+      bolaState.placeholderBuffer += Math.max(0, delay);
+    }
+    bolaState.lastCallTimeMs = nowMs;
+    bolaState.lastSegmentStart = NaN;
+    bolaState.lastSegmentRequestTimeMs = NaN;
+    bolaState.lastSegmentFinishTimeMs = NaN;
+    this.checkBolaStateBufferTargets(bolaState, context, bufferLevel);
+  }
+
+  /**
+   * When a new fragment is loaded and buffered, trim the placeholder buffer if the fragment was loaded at a lower
+   * level than BOLA indicated (e.g. capped by a secondary rule), and grow it for replacement fragments that did
+   * not grow the real buffer
+   * @param {BolaState} bolaState
+   */
+  private checkNewSegment(bolaState: BolaState) {
+    if (
+      isNaN(bolaState.lastSegmentStart) ||
+      isNaN(bolaState.lastSegmentRequestTimeMs) ||
+      isNaN(bolaState.placeholderBuffer)
+    ) {
+      return;
+    }
+    bolaState.placeholderBuffer *= this.config.abrBola.placeholderBufferDecay;
+    // Find what maximum buffer corresponding to last segment was, and ensure placeholder is not relatively larger.
+    if (!isNaN(bolaState.lastSegmentFinishTimeMs)) {
+      const bufferLevel = this.player.getBufferInfo(
+        this.config.maxBufferHole
+      ).len;
+      // estimate
+      const bufferAtLastSegmentRequest =
+        bufferLevel +
+        0.001 *
+          (bolaState.lastSegmentFinishTimeMs -
+            bolaState.lastSegmentRequestTimeMs);
+      const maxPlaceholderBuffer = Math.max(
+        0,
+        maxBufferLevelForQuality(bolaState, bolaState.lastQuality) -
+          bufferAtLastSegmentRequest
+      );
+      bolaState.placeholderBuffer = Math.min(
+        maxPlaceholderBuffer,
+        bolaState.placeholderBuffer
+      );
+    }
+    // then see if we should grow placeholder buffer
+    if (
+      bolaState.lastSegmentWasReplacement &&
+      !isNaN(bolaState.lastSegmentDurationS)
+    ) {
+      // compensate for segments that were downloaded but did not grow the buffer
+      bolaState.placeholderBuffer += bolaState.lastSegmentDurationS;
+    }
+    bolaState.lastSegmentStart = NaN;
+    bolaState.lastSegmentRequestTimeMs = NaN;
+  }
+}
+
+/**
+ * Log utilities of the level bitrates, normalized so that the lowest level has a utility of 1
+ * @param {number[]} bitrates
+ * @return {number[]}
+ */
+function utilitiesFromBitrates(bitrates: number[]): number[] {
+  const utilities = bitrates.map((bitrate) => Math.log(bitrate));
+  return utilities.map((utility) => utility - utilities[0] + 1);
+}
+
+/**
+ * Returns the Lyapunov parameters choosing the lowest level at minimumBuffer and the top level at the stable
+ * buffer, null when a single level has the highest utility
+ * @param {BolaBufferTargets} targets
+ * @param {number[]} utilities
+ * @return {BolaParameters | null}
+ */
+function calculateBolaParameters(
+  targets: BolaBufferTargets,
+  utilities: number[]
+): BolaParameters | null {
+  const highestUtilityIndex = utilities.reduce(
+    (highestIndex, utility, index) =>
+      utility > utilities[highestIndex] ? index : highestIndex,
+    0
+  );
+  if (highestUtilityIndex === 0) {
+    return null;
+  }
+  const { minimumBuffer, minimumBufferPerLevel, stableBufferTime } = targets;
+  let bufferTime = Math.max(
+    stableBufferTime,
+    minimumBuffer + minimumBufferPerLevel * utilities.length
+  );
+  if (bufferTime <= minimumBuffer) {
+    // the top level needs a buffer target above the minimum buffer
+    bufferTime = 2 * minimumBuffer;
+  }
+  // Vp * (utilities[0] + gp - 1) === minimumBuffer and Vp * (utilities[max] + gp - 1) === bufferTime
+  const gp =
+    (utilities[highestUtilityIndex] - 1) / (bufferTime / minimumBuffer - 1);
+  return { gp, Vp: minimumBuffer / gp };
+}
+
+function getBolaScore(
+  bolaState: BolaState,
+  quality: number,
+  bufferLevel: number
+): number {
+  return (
+    (bolaState.Vp * (bolaState.utilities[quality] + bolaState.gp) -
+      bufferLevel) /
+    bolaState.bitrates[quality]
+  );
+}
+
+/**
+ * The core idea of BOLA: the level maximizing the Lyapunov drift-plus-penalty score at the given buffer level
+ * @param {BolaState} bolaState
+ * @param {number} bufferLevel
+ * @return {number}
+ */
+function getQualityFromBufferLevel(
+  bolaState: BolaState,
+  bufferLevel: number
+): number {
+  let quality = 0;
+  let score = NaN;
+  for (let i = 0; i < bolaState.bitrates.length; ++i) {
+    const s = getBolaScore(bolaState, i, bufferLevel);
+    if (isNaN(score) || s >= score) {
+      score = s;
+      quality = i;
+    }
+  }
+  return quality;
+}
+
+// maximum buffer level which prefers to download at quality rather than wait
+function maxBufferLevelForQuality(
+  bolaState: BolaState,
+  quality: number
+): number {
+  return bolaState.Vp * (bolaState.utilities[quality] + bolaState.gp);
+}
+
+// the minimum buffer level that would cause BOLA to choose quality rather than a lower bitrate
+function minBufferLevelForQuality(
+  bolaState: BolaState,
+  quality: number
+): number {
+  const qBitrate = bolaState.bitrates[quality];
+  const qUtility = bolaState.utilities[quality];
+  let min = 0;
+  for (let i = quality - 1; i >= 0; --i) {
+    // for each bitrate less than bitrates[quality], BOLA should prefer quality (unless other bitrate has higher utility)
+    if (bolaState.utilities[i] < qUtility) {
+      const iBitrate = bolaState.bitrates[i];
+      const iUtility = bolaState.utilities[i];
+      const level =
+        bolaState.Vp *
+        (bolaState.gp +
+          (qBitrate * iUtility - iBitrate * qUtility) / (qBitrate - iBitrate));
+      // we want min to be small but at least level(i) for all i
+      min = Math.max(min, level);
+    }
+  }
+  return min;
+}
+
+function clearBolaStateOnSeek(bolaState: BolaState) {
+  bolaState.placeholderBuffer = 0;
+  bolaState.mostAdvancedSegmentStart = NaN;
+  bolaState.lastSegmentWasReplacement = false;
+  bolaState.lastSegmentStart = NaN;
+  bolaState.lastSegmentDurationS = NaN;
+  bolaState.lastSegmentRequestTimeMs = NaN;
+  bolaState.lastSegmentFinishTimeMs = NaN;
+  bolaState.lastCallTimeMs = NaN;
+}
@@ -0,0 +1,103 @@
+import { logger } from '../utils/logger';
+import { ABR_NO_CHANGE, AbrSwitchPriority } from '../types/abr-rule';
+import type { PlayerContext } from '../types/player-context';
+import type {
+  AbrRuleContext,
+  AbrSwitchRequest,
+  AbrSwitchRule,
+} from '../types/abr-rule';
+
+// Port of the dash.js DroppedFramesRule and DroppedFramesHistory
+const DROPPED_PERCENTAGE_FORBID = 0.15;
+// Don't apply the rule until this many frames have been rendered (and counted under those indices)
+const GOOD_SAMPLE_SIZE = 375;
+
+interface FrameHistoryEntry {
+  droppedVideoFrames: number;
+  totalVideoFrames: number;
+}
+
+export default class DroppedFramesRule implements AbrSwitchRule {
+  private player: PlayerContext;
+  // frames rendered while each level was played, indexed by level
+  private frameHistory: FrameHistoryEntry[] = [];
+  private lastDroppedFrames: number = 0;
+  private lastTotalFrames: number = 0;
+
+  constructor(player: PlayerContext) {
+    this.player = player;
+  }
+
+  onFragBuffered() {
+    this.updateFrameHistory();
+  }
+
+  /**
+   * Caps the level below the lowest level dropping too many frames
+   * @param {AbrRuleContext} context
+   * @return {AbrSwitchRequest}
+   */
+  getSwitchRequest(context: AbrRuleContext): AbrSwitchRequest {
+    this.player = context.player;
+    this.updateFrameHistory();
+    const switchRequest: AbrSwitchRequest = {
+      quality: ABR_NO_CHANGE,
+      priority: AbrSwitchPriority.DEFAULT,
+    };
+    const { frameHistory } = this;
+    // No point in measuring dropped frames for the zeroeth index.
+    for (let i = 1; i < frameHistory.length; i++) {
+      const entry = frameHistory[i];
+      if (
+        entry &&
+        entry.totalVideoFrames > GOOD_SAMPLE_SIZE &&
+        entry.droppedVideoFrames / entry.totalVideoFrames >
+          DROPPED_PERCENTAGE_FORBID
+      ) {
+        switchRequest.quality = i - 1;
+        switchRequest.reason = `dropped frames: ${entry.droppedVideoFrames} total frames: ${entry.totalVideoFrames}`;
+        logger.log(
+          `[DroppedFramesRule] index: ${i - 1} ${switchRequest.reason}`
+        );
+        break;
+      }
+    }
+    return switchRequest;
+  }
+
+  destroy() {
+    this.frameHistory = [];
+    this.lastDroppedFrames = this.lastTotalFrames = 0;
+  }
+
+  /**
+   * Accounts the frames rendered since the last sample to the level being played
+   */
+  private updateFrameHistory() {
+    const { player } = this;
+    const quality = player.getVideoPlaybackQuality();
+    const level = player.currentLevel;
+    if (!quality) {
+      return;
+    }
+    const { droppedVideoFrames, totalVideoFrames } = quality;
+    // counters restart when media is attached again
+    if (totalVideoFrames < this.lastTotalFrames) {
+      this.lastDroppedFrames = this.lastTotalFrames = 0;
+    }
+    const dropped = droppedVideoFrames - this.lastDroppedFrames;
+    const total = totalVideoFrames - this.lastTotalFrames;
+    this.lastDroppedFrames = droppedVideoFrames;
+    this.lastTotalFrames = totalVideoFrames;
+    if (level < 0 || total <= 0) {
+      return;
+    }
+    const entry = this.frameHistory[level] || {
+      droppedVideoFrames: 0,
+      totalVideoFrames: 0,
+    };
+    entry.droppedVideoFrames += dropped;
+    entry.totalVideoFrames += total;
+    this.frameHistory[level] = entry;
+  }
+}
@@ -0,0 +1,219 @@
+import { PlaylistLevelType } from '../types/loader';
+import { AbrDecisionReason } from '../types/abr-rule';
+import { getQualityForBitrate } from './abr-rules-collection';
+import { createSeededRandom } from '../utils/random';
+import type { FragBufferedData } from '../types/events';
+import type { PlayerContext } from '../types/player-context';
+import type { AbrHlsConfig } from '../abr-config';
+import type { RandomGenerator } from '../utils/random';
+import type {
+  AbrRule,
+  AbrRuleContext,
+  AbrRuleDecisionInfo,
+} from '../types/abr-rule';
+
+// For a description of FESTIVE see https://doi.org/10.1145/2413176.2413189
+
+// s, buffer kept on top of the expected download time of the next part by the request schedule
+const REQUEST_MARGIN = 0.25;
+
+export default class FestiveRule implements AbrRule {
+  private player: PlayerContext;
+  // set at each boundary by update
+  private config!: AbrHlsConfig;
+  // bps, one sample per buffered part or segment
+  private throughputSamples: number[] = [];
+  // level of the last buffered segment and number of segments buffered at that level in a row
+  private bufferedLevel: number = -1;
+  private segmentsAtLevel: number = 0;
+  private lastBufferedSn: number | 'initSegment' | null = null;
+  // whether each of the last buffered segments changed level, oldest first
+  private switchHistory: boolean[] = [];
+  private random: RandomGenerator = Math.random;
+  private randomSeed: number | undefined;
+  private decisionInfo: AbrRuleDecisionInfo | null = null;
+
+  constructor(player: PlayerContext) {
+    this.player = player;
+  }
+
+  init(context: AbrRuleContext) {
+    this.update(context);
+  }
+
+  destroy() {
+    this.throughputSamples = [];
+    this.bufferedLevel = -1;
+    this.segmentsAtLevel = 0;
+    this.lastBufferedSn = null;
+    this.switchHistory = [];
+    this.random = Math.random;
+    this.randomSeed = undefined;
+    this.decisionInfo = null;
+  }
+
+  getDecisionInfo() {
+    return this.decisionInfo;
+  }
+
+  private update(context: AbrRuleContext) {
+    this.player = context.player;
+    this.config = context.config;
+    const { randomSeed } = this.config.abrFestive;
+    if (!Object.is(randomSeed, this.randomSeed)) {
+      this.randomSeed = randomSeed;
+      this.random = isNaN(randomSeed)
+        ? Math.random
+        : createSeededRandom(randomSeed);
+    }
+  }
+
+  onFragBuffered(data: FragBufferedData) {
+    const { frag, part } = data;
+    if (frag.type !== PlaylistLevelType.MAIN) {
+      return;
+    }
+    const stats = part ? part.stats : frag.stats;
+    const loadTime = stats.loading.end - stats.loading.start;
+    if (loadTime > 0 && stats.loaded) {
+      this.throughputSamples.push((8000 * stats.loaded) / loadTime);
+      while (
+        this.throughputSamples.length > this.config.abrFestive.harmonicMeanSize
+      ) {
+        this.throughputSamples.shift();
+      }
+    }
+    // parts of the same segment count once
+    if (frag.sn !== this.lastBufferedSn && this.bufferedLevel !== -1) {
+      this.switchHistory.push(frag.level !== this.bufferedLevel);
+      while (
+        this.switchHistory.length > this.config.abrFestive.stabilityWindow
+      ) {
+        this.switchHistory.shift();
+      }
+    }
+    if (frag.level !== this.bufferedLevel) {
+      this.bufferedLevel = frag.level;
+      this.segmentsAtLevel = 1;
+    } else if (frag.sn !== this.lastBufferedSn) {
+      this.segmentsAtLevel++;
+    }
+    this.lastBufferedSn = frag.sn;
+  }
+
+  /**
+   * Moves towards the level of the harmonic mean throughput one level at a time, switching up from
+   * level k only after k * switchUpDelay segments at that level, and only when the efficiency gain
+   * outweighs the stability cost
+   * @param {AbrRuleContext} context
+   * @return {number} quality
+   */
+  getNextQuality(context: AbrRuleContext) {
+    this.update(context);
+    const { player, config, throughputSamples } = this;
+    const { fragCurrent, partCurrent, currentQuality } = context;
+    const {
+      bandwidthSafetyFactor,
+      switchUpDelay,
+      stabilityWindow,
+      efficiencyWeight,
+      targetBuffer,
+      targetBufferJitter,
+    } = config.abrFestive;
+    if (fragCurrent && fragCurrent.type === PlaylistLevelType.AUDIO) {
+      this.decisionInfo = { reason: AbrDecisionReason.UNSUPPORTED_MEDIA };
+      return currentQuality;
+    }
+    if (!throughputSamples.length) {
+      this.decisionInfo = { reason: AbrDecisionReason.NO_ESTIMATE };
+      return currentQuality;
+    }
+    const { levels } = player;
+    const harmonicMean =
+      throughputSamples.length /
+      throughputSamples.reduce((sum, sample) => sum + 1 / sample, 0);
+    const targetQuality = getQualityForBitrate(
+      levels,
+      harmonicMean * bandwidthSafetyFactor
+    );
+
+    // gradual switching: one level at a time, up only after enough segments at the current level
+    const segmentsAtLevel =
+      this.bufferedLevel === currentQuality ? this.segmentsAtLevel : 0;
+    let referenceQuality = currentQuality;
+    if (targetQuality > currentQuality) {
+      if (segmentsAtLevel >= currentQuality * switchUpDelay) {
+        referenceQuality = currentQuality + 1;
+      }
+    } else if (targetQuality < currentQuality) {
+      referenceQuality = currentQuality - 1;
+    }
+
+    // delayed update: keep the current level unless the reference level scores better
+    const history = this.switchHistory.slice(-stabilityWindow);
+    const switchCount = history.filter((switched) => switched).length;
+    const referenceBitrate = Math.min(
+      harmonicMean,
+      levels[referenceQuality].bitrate
+    );
+    const getScore = (quality: number) =>
+      Math.pow(2, quality === currentQuality ? switchCount : switchCount + 1) +
+      efficiencyWeight *
+        Math.abs(levels[quality].bitrate / referenceBitrate - 1);
+    const currentScore = getScore(currentQuality);
+    const referenceScore = getScore(referenceQuality);
+    const quality =
+      referenceScore < currentScore ? referenceQuality : currentQuality;
+
+    // randomized scheduling: a buffer target drawn around targetBuffer would de-synchronize the
+    // requests of clients sharing a bottleneck. hls.js does not let ABR rules defer requests, the
+    // schedule is only reported
+    const duration = partCurrent
+      ? partCurrent.duration
+      : fragCurrent
+      ? fragCurrent.duration
+      : 0;
+    const buffer = isNaN(targetBuffer)
+      ? player.targetLatency
+        ? Math.max(0, player.targetLatency - duration)
+        : config.maxBufferLength
+      : targetBuffer;
+    // the request is never held past the point where the next part could not download in time
+    const minTargetBuffer =
+      (levels[quality].bitrate * duration) / harmonicMean + REQUEST_MARGIN;
+    const randomizedTargetBuffer = Math.max(
+      minTargetBuffer,
+      buffer + (2 * this.random() - 1) * targetBufferJitter
+    );
+    const bufferLevel = player.getBufferInfo(config.maxBufferHole).len;
+
+    this.decisionInfo = {
+      reason:
+        quality > currentQuality
+          ? AbrDecisionReason.SWITCH_UP
+          : quality < currentQuality
+          ? AbrDecisionReason.SWITCH_DOWN
+          : AbrDecisionReason.HOLD,
+      candidates: (referenceQuality === currentQuality
+        ? [currentQuality]
+        : [currentQuality, referenceQuality]
+      ).map((level) => ({
+        level,
+        bitrate: levels[level].bitrate,
+        score: getScore(level),
+      })),
+      scoreType: 'festive-score',
+      details: {
+        harmonicMeanKbps: harmonicMean / 1000,
+        targetQuality,
+        switchCount,
+        segmentsAtLevel,
+        bufferLevel,
+        randomizedTargetBuffer,
+        minTargetBuffer,
+        requestDelay: Math.max(0, bufferLevel - randomizedTargetBuffer),
+      },
+    };
+    return quality;
+  }
+}
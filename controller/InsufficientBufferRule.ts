@@ -0,0 +1,86 @@
+import { logger } from '../utils/logger';
+import { PlaylistLevelType } from '../types/loader';
+import { ABR_NO_CHANGE, AbrSwitchPriority } from '../types/abr-rule';
+import { getQualityForBitrate } from './abr-rules-collection';
+import type { FragBufferedData } from '../types/events';
+import type {
+  AbrRuleContext,
+  AbrSwitchRequest,
+  AbrSwitchRule,
+} from '../types/abr-rule';
+
+// Port of the dash.js InsufficientBufferRule
+const INSUFFICIENT_BUFFER_SAFETY_FACTOR = 0.5;
+// fragments buffered after startup or a seek before the rule applies
+const SEGMENT_IGNORE_COUNT = 2;
+
+export default class InsufficientBufferRule implements AbrSwitchRule {
+  private ignoreCount: number = SEGMENT_IGNORE_COUNT;
+  private bufferEmpty: boolean = false;
+
+  onFragBuffered(data: FragBufferedData) {
+    if (data.frag.type !== PlaylistLevelType.MAIN) {
+      return;
+    }
+    this.bufferEmpty = false;
+    if (this.ignoreCount > 0) {
+      this.ignoreCount--;
+    }
+  }
+
+  onBufferStalled() {
+    this.bufferEmpty = true;
+  }
+
+  /**
+   * Caps the level to the bitrate the buffer can sustain, the lowest level once the buffer ran empty
+   * @param {AbrRuleContext} context
+   * @return {AbrSwitchRequest}
+   */
+  getSwitchRequest(context: AbrRuleContext): AbrSwitchRequest {
+    const { player, fragCurrent, partCurrent, config } = context;
+    const switchRequest: AbrSwitchRequest = {
+      quality: ABR_NO_CHANGE,
+      priority: AbrSwitchPriority.DEFAULT,
+    };
+    if (player.seeking) {
+      this.ignoreCount = SEGMENT_IGNORE_COUNT;
+      this.bufferEmpty = false;
+    }
+    // the part being loaded in low-latency mode
+    const fragmentDuration = partCurrent
+      ? partCurrent.duration
+      : fragCurrent
+      ? fragCurrent.duration
+      : 0;
+    // Don't ask for a bitrate change if there is no info about buffer state or if fragmentDuration is not defined
+    if (this.ignoreCount > 0 || !fragmentDuration) {
+      return switchRequest;
+    }
+    if (this.bufferEmpty) {
+      logger.log(
+        '[InsufficientBufferRule] Switch to index 0; buffer is empty.'
+      );
+      switchRequest.quality = 0;
+      switchRequest.reason = 'buffer is empty';
+      return switchRequest;
+    }
+    const throughput = player.bandwidthEstimate;
+    if (!Number.isFinite(throughput)) {
+      return switchRequest;
+    }
+    const bufferLevel = player.getBufferInfo(config.maxBufferHole).len;
+    const bitrate =
+      throughput *
+      (bufferLevel / fragmentDuration) *
+      INSUFFICIENT_BUFFER_SAFETY_FACTOR;
+    switchRequest.quality = getQualityForBitrate(player.levels, bitrate);
+    switchRequest.reason = 'being conservative to avoid immediate rebuffering';
+    return switchRequest;
+  }
+
+  destroy() {
+    this.ignoreCount = SEGMENT_IGNORE_COUNT;
+    this.bufferEmpty = false;
+  }
+}
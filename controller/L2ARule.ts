@@ -29,19 +29,18 @@
  *  POSSIBILITY OF SUCH DAMAGE.
  */
 
-import Hls, { Fragment } from '../hls';
-import { Events } from '../events';
-import { ErrorDetails } from '../errors';
-import {
-  ErrorData,
-  FragLoadedData,
-  FragParsedData,
-  LevelSwitchingData,
-} from '../types/events';
+import { FragBufferedData, FragLoadedData } from '../types/events';
 import { PlaylistLevelType } from '../types/loader';
-import { BufferHelper } from '../utils/buffer-helper';
-import { Part } from '../loader/fragment';
+import { Fragment, Part } from '../loader/fragment';
 import { logger } from '../utils/logger';
+import type { PlayerContext } from '../types/player-context';
+import type { AbrHlsConfig } from '../abr-config';
+import { AbrDecisionReason } from '../types/abr-rule';
+import type {
+  AbrRule,
+  AbrRuleContext,
+  AbrRuleDecisionInfo,
+} from '../types/abr-rule';
 
 // For a description of the Learn2Adapt-LowLatency (L2A-LL) bitrate adaptation algorithm, see https://github.com/unifiedstreaming/Learn2Adapt-LowLatency/blob/master/Online_learning_for_bitrate_adaptation_in_low_latency_live_streaming_CR.pdf
 
@@ -82,55 +81,66 @@ export type l2AStateDict = Record<string, l2AState>;
 
 export type l2AParametersDict = Record<string, l2AParameters>;
 
-export default class L2ARule {
-  private hls: Hls;
-  private fragCurrent: Fragment;
-  private partCurrent: Part;
-  private currentQuality: number;
+export default class L2ARule implements AbrRule {
+  private player: PlayerContext;
+  private fragCurrent: Fragment | null = null;
+  private partCurrent: Part | null = null;
+  private currentQuality: number = 0;
+  // set at each boundary by update
+  private config!: AbrHlsConfig;
   private l2AStateDict: l2AStateDict;
   private l2AParameterDict: l2AParametersDict;
+  private deadTimeRatio: number = 0;
+  private decisionInfo: AbrRuleDecisionInfo | null = null;
 
-  constructor(config) {
-    this.hls = config.hls;
-    this.fragCurrent = config.fragCurrent;
-    this.partCurrent = config.partCurrent;
-    this.currentQuality = config.currentQuality;
+  constructor(player: PlayerContext) {
+    this.player = player;
     this.l2AStateDict = {};
     this.l2AParameterDict = {};
-    this.registerListeners();
   }
 
-  /**
-   * Register listeners used by L2ARule
-   * @private
-   */
-  private registerListeners() {
-    const { hls } = this;
-    hls.on(Events.ERROR, this._onPlaybackSeeking, this);
-    hls.on(Events.FRAG_LOADED, this._onMediaFragmentLoaded, this);
-    hls.on(Events.FRAG_PARSED, this._onMetricAdded, this);
-    hls.on(Events.LEVEL_SWITCHING, this._onQualityChangeRequested, this);
+  init(context: AbrRuleContext) {
+    this.update(context);
   }
 
-  /**
-   * Unregister listeners used by L2ARule before quit
-   */
-  unregisterListeners() {
-    const { hls } = this;
-    hls.off(Events.ERROR, this._onPlaybackSeeking, this);
-    hls.off(Events.FRAG_LOADED, this._onMediaFragmentLoaded, this);
-    hls.off(Events.FRAG_PARSED, this._onMetricAdded, this);
-    hls.off(Events.LEVEL_SWITCHING, this._onQualityChangeRequested, this);
+  destroy() {
+    this.l2AStateDict = {};
+    this.l2AParameterDict = {};
+    this.fragCurrent = this.partCurrent = null;
+    this.decisionInfo = null;
+  }
+
+  getDecisionInfo() {
+    return this.decisionInfo;
   }
 
   /**
    * Update fragment and current quality at each boundary
+   * @param {AbrRuleContext} context
+   * @private
    */
-  update(config) {
-    this.hls = config.hls;
-    this.fragCurrent = config.fragCurrent;
-    this.partCurrent = config.partCurrent;
-    this.currentQuality = config.currentQuality;
+  private update(context: AbrRuleContext) {
+    this.player = context.player;
+    this.config = context.config;
+    this.fragCurrent = context.fragCurrent;
+    this.partCurrent = context.partCurrent;
+    this.currentQuality = context.currentQuality;
+  }
+
+  onFragLoaded(data: FragLoadedData) {
+    this._onMediaFragmentLoaded(data);
+  }
+
+  onFragBuffered(data: FragBufferedData) {
+    this._onMetricAdded(data);
+  }
+
+  onBufferStalled() {
+    this._onPlaybackSeeking();
+  }
+
+  onLevelSwitching(level: number) {
+    this._onQualityChangeRequested(level);
   }
 
   /**
@@ -140,8 +150,8 @@ export default class L2ARule {
    * @private
    */
   private _getInitialL2AState(mediaType: PlaylistLevelType) {
-    const { hls } = this;
-    const bitrates = hls.levels.map((b) => {
+    const { player } = this;
+    const bitrates = player.levels.map((b) => {
       return b.bitrate / 1000;
     });
 
@@ -179,7 +189,7 @@ export default class L2ARule {
       Q: 0, //Initialization of Lagrangian multiplier (This keeps track of the buffer displacement)
       w: [], //Vector of probabilities associated with bitrate decisions
       prev_w: [], //Vector of probabilities associated with bitrate decisions calculated in the previous step
-      B_target: 1.5, //Target buffer level
+      B_target: this.config.abrL2A.bufferTarget, //Target buffer level
       segment_request_start_s: 0,
       segment_download_finish_s: 0,
     };
@@ -218,33 +228,28 @@ export default class L2ARule {
   }
 
   /**
-   * Event handler for the seeking event.
-   * @param {Events.ERROR} eventName
-   * @param {ErrorData} data
+   * Handler for buffer stalls, the state is reset as after a seek
    * @private
    */
-  private _onPlaybackSeeking(eventName, data: ErrorData) {
-    if (data.details === ErrorDetails.BUFFER_STALLED_ERROR) {
-      const { l2AStateDict } = this;
-      for (const mediaType in l2AStateDict) {
-        if (l2AStateDict.hasOwnProperty(mediaType)) {
-          const l2aState = l2AStateDict[mediaType];
-          if (l2aState.state !== L2A_STATE_ONE_BITRATE) {
-            l2aState.state = L2A_STATE_STARTUP;
-            this._clearL2AStateOnSeek(l2aState);
-          }
+  private _onPlaybackSeeking() {
+    const { l2AStateDict } = this;
+    for (const mediaType in l2AStateDict) {
+      if (l2AStateDict.hasOwnProperty(mediaType)) {
+        const l2aState = l2AStateDict[mediaType];
+        if (l2aState.state !== L2A_STATE_ONE_BITRATE) {
+          l2aState.state = L2A_STATE_STARTUP;
+          this._clearL2AStateOnSeek(l2aState);
         }
       }
     }
   }
 
   /**
-   * Event handler for the mediaFragmentLoaded event
-   * @param {Events.FRAG_LOADED} eventName
+   * Handler for the mediaFragmentLoaded event
    * @param {FragLoadedData} data
    * @private
    */
-  private _onMediaFragmentLoaded(eventName, data: FragLoadedData) {
+  private _onMediaFragmentLoaded(data: FragLoadedData) {
     const { l2AParameterDict, l2AStateDict } = this;
     if (data.frag) {
       const frag: Fragment = data.frag;
@@ -278,11 +283,11 @@ export default class L2ARule {
   }
 
   /**
-   * Event handler for the metricAdded event
-   * @param {Events.FRAG_PARSED} eventName
+   * Handler for the metricAdded event, request and parsing times are final once the fragment is buffered
+   * @param {FragBufferedData} data
    * @private
    */
-  private _onMetricAdded(eventName, data: FragParsedData) {
+  private _onMetricAdded(data: FragBufferedData) {
     const { l2AParameterDict, l2AStateDict } = this;
     const { frag } = data;
     if (frag) {
@@ -318,20 +323,17 @@ export default class L2ARule {
   }
 
   /**
-   * Event handler for the qualityChangeRequested event
-   * @param {Events.LEVEL_SWITCHING} eventName
-   * @param {LevelSwitchingData} data
+   * Handler for the qualityChangeRequested event
+   * @param {number} level
    * @private
    */
-  private _onQualityChangeRequested(eventName, data: LevelSwitchingData) {
+  private _onQualityChangeRequested(level: number) {
     const { l2AStateDict, fragCurrent } = this;
     const mediaType = fragCurrent ? fragCurrent.type : PlaylistLevelType.MAIN;
     // Useful to store change requests when abandoning a download.
-    if (data) {
-      const L2AState = l2AStateDict[mediaType];
-      if (L2AState && L2AState.state !== L2A_STATE_ONE_BITRATE) {
-        L2AState.abrQuality = data.level;
-      }
+    const L2AState = l2AStateDict[mediaType];
+    if (L2AState && L2AState.state !== L2A_STATE_ONE_BITRATE) {
+      L2AState.abrQuality = level;
     }
   }
 
@@ -397,25 +399,27 @@ export default class L2ARule {
    * @memberof AbrController#
    */
   getQualityForBitrate(bitrate) {
-    const { hls, fragCurrent } = this;
-    const { latency } = hls;
+    const { player, fragCurrent } = this;
+    const { latency } = player;
 
+    this.deadTimeRatio = 0;
     if (latency && fragCurrent) {
       const fragmentDuration = fragCurrent.duration;
-      const targetLatency = hls.targetLatency ? hls.targetLatency : 0;
+      const targetLatency = player.targetLatency ? player.targetLatency : 0;
       const deltaLatency = Math.abs(latency - targetLatency);
       logger.log(
         `>>> latency: ${latency} target: ${targetLatency} delta: ${deltaLatency} fragDuration: ${fragmentDuration} >>>`
       );
+      const deadTimeRatio = deltaLatency / fragmentDuration;
+      this.deadTimeRatio = deadTimeRatio;
       if (deltaLatency > fragmentDuration) {
         return 0;
       } else {
-        const deadTimeRatio = deltaLatency / fragmentDuration;
         bitrate = bitrate * (1 - deadTimeRatio);
       }
     }
 
-    const bitrateList = hls.levels.map((b) => b.bitrate);
+    const bitrateList = player.levels.map((b) => b.bitrate);
 
     for (let i = bitrateList.length - 1; i >= 0; i--) {
       if (bitrate * 1000 >= bitrateList[i]) {
@@ -427,35 +431,32 @@ export default class L2ARule {
 
   /**
    * Returns the quality level to be played
+   * @param {AbrRuleContext} context
    * @return {number} quality
    */
-  getMaxIndex() {
-    const { l2AParameterDict, hls, fragCurrent } = this;
-    const { config, media } = hls;
-    const horizon = 4; // Optimization horizon (The amount of steps required to achieve convergence)
+  getNextQuality(context: AbrRuleContext) {
+    this.update(context);
+    const { l2AParameterDict, player, fragCurrent } = this;
+    const { config } = context;
+    const { horizon, react } = config.abrL2A;
     const vl = Math.pow(horizon, 0.99); // Cautiousness parameter, used to control aggressiveness of the bitrate decision process.
     const alpha = Math.max(Math.pow(horizon, 1), vl * Math.sqrt(horizon)); // Step size, used for gradient descent exploration granularity
-    const bitrates = hls.levels.map((b) => b.bitrate);
+    const bitrates = player.levels.map((b) => b.bitrate);
     const bitrateCount = bitrates.length;
-    const throughput = !isNaN(hls.bandwidthEstimate)
-      ? hls.bandwidthEstimate / 1000.0
+    const throughput = !isNaN(player.bandwidthEstimate)
+      ? player.bandwidthEstimate / 1000.0
       : config.abrEwmaDefaultEstimate / 1000.0;
     const useL2AABR = true;
-    const pos = media ? media.currentTime : 0;
-    const bufferStateVO = BufferHelper.bufferInfo(
-      media,
-      pos,
-      config.maxBufferHole
-    );
+    const bufferStateVO = player.getBufferInfo(config.maxBufferHole);
     const bufferLevel = parseFloat(bufferStateVO.len.toFixed(2));
-    const react = 2; // Reactiveness to volatility (abrupt throughput drops), used to re-calibrate Lagrangian multiplier Q
     let quality: number = 0;
-    const currentPlaybackRate = media ? media.playbackRate : 1;
+    const currentPlaybackRate = player.playbackRate;
     const mediaType = fragCurrent ? fragCurrent.type : PlaylistLevelType.MAIN;
     const currentQuality = this.currentQuality;
 
     if (!useL2AABR || mediaType === PlaylistLevelType.AUDIO) {
       // L2A decides bitrate only for video. Audio to be included in decision process in a later stage
+      this.decisionInfo = { reason: AbrDecisionReason.UNSUPPORTED_MEDIA };
       return currentQuality;
     }
 
@@ -465,23 +466,27 @@ export default class L2ARule {
 
     if (l2AState.state === L2A_STATE_ONE_BITRATE) {
       // shouldn't even have been called
+      this.decisionInfo = { reason: AbrDecisionReason.HOLD };
       return currentQuality;
     }
 
     const l2AParameter: l2AParameters = l2AParameterDict[mediaType];
 
     if (!l2AParameter) {
+      this.decisionInfo = { reason: AbrDecisionReason.STARTUP };
       return currentQuality;
     }
+    l2AParameter.B_target = config.abrL2A.bufferTarget;
 
     if (isNaN(throughput)) {
       // still starting up - not enough information
+      this.decisionInfo = { reason: AbrDecisionReason.NO_ESTIMATE };
       return currentQuality;
     }
 
     // start state
-    const targetLatency = hls.targetLatency ? hls.targetLatency : 0;
-    const deltaLatency = Math.abs(hls.latency - targetLatency);
+    const targetLatency = player.targetLatency ? player.targetLatency : 0;
+    const deltaLatency = Math.abs(player.latency - targetLatency);
     // steady state
     const diff1: number[] = []; //Used to calculate the difference between consecutive decisions (w-w_prev)
     let lastthroughput = throughput; // bits/ms = kbits/s
@@ -492,12 +497,29 @@ export default class L2ARule {
     switch (l2AState.state) {
       case L2A_STATE_STARTUP:
         if (
-          hls.isLive &&
+          player.isLive &&
           (fragCurrent == null || deltaLatency >= fragCurrent.duration)
-        )
+        ) {
+          this.decisionInfo = {
+            reason: fragCurrent
+              ? AbrDecisionReason.LATENCY_DEAD_TIME
+              : AbrDecisionReason.NO_FRAGMENT,
+            details: { deltaLatency },
+          };
           break;
+        }
         quality = this.getQualityForBitrate(throughput); //During strat-up phase abr.controller is responsible for bitrate decisions.
         l2AState.lastQuality = quality;
+        this.decisionInfo = {
+          reason:
+            this.deadTimeRatio > 1
+              ? AbrDecisionReason.LATENCY_DEAD_TIME
+              : AbrDecisionReason.STARTUP,
+          details: {
+            throughputKbps: throughput,
+            deadTimeRatio: this.deadTimeRatio,
+          },
+        };
 
         if (
           !isNaN(l2AState.lastSegmentDurationS) &&
@@ -584,11 +606,22 @@ export default class L2ARule {
         }
 
         l2AState.lastQuality = quality;
+        this.decisionInfo = {
+          reason: AbrDecisionReason.STEADY,
+          scoreType: 'probability',
+          candidates: l2AParameter.w.map((probability, level) => ({
+            level,
+            bitrate: player.levels[level].bitrate,
+            score: probability,
+          })),
+          details: { Q: l2AParameter.Q, throughputKbps: lastthroughput },
+        };
         break;
       default:
         // should not arrive here, try to recover
         logger.debug('L2A ABR rule invoked in bad state.');
         quality = this.getQualityForBitrate(throughput);
+        this.decisionInfo = { reason: AbrDecisionReason.STARTUP };
         l2AState.state = L2A_STATE_STARTUP;
         this._clearL2AStateOnSeek(l2AState);
         logger.log(`>>> default >>>`);
@@ -1,62 +1,79 @@
-import Hls, { Fragment, Part } from '../hls';
 import { PlaylistLevelType } from '../types/loader';
-import { BufferHelper } from '../utils/buffer-helper';
-
-export default class LlamaABR {
-  private hls: Hls;
-  private fragCurrent: Fragment;
-  private partCurrent: Part;
-  private currentQuality: number;
-  private sn0: number | string;
+import type { Fragment, Part } from '../loader/fragment';
+import type { PlayerContext } from '../types/player-context';
+import { AbrDecisionReason } from '../types/abr-rule';
+import type {
+  AbrRule,
+  AbrRuleContext,
+  AbrRuleDecisionInfo,
+} from '../types/abr-rule';
+
+export default class LlamaABR implements AbrRule {
+  private player: PlayerContext;
+  private fragCurrent: Fragment | null = null;
+  private partCurrent: Part | null = null;
+  private currentQuality: number = 0;
+  private sn0: number | string = 'initSegment';
   private harmonicMeanQ: number[];
-  private readonly THROUGHPUT_SAFETY_FACTOR = 1;
-  private readonly HARMONIC_MEAN_SIZE = 10;
-  private readonly MIN_BUFFER_LEVEL = -1;
-
-  constructor(config) {
-    this.hls = config.hls;
-    this.fragCurrent = config.fragCurrent;
-    this.partCurrent = config.partCurrent;
-    this.currentQuality = config.currentQuality;
-    this.sn0 = this.fragCurrent.sn;
+  private decisionInfo: AbrRuleDecisionInfo | null = null;
+
+  constructor(player: PlayerContext) {
+    this.player = player;
     this.harmonicMeanQ = [];
   }
 
-  update(config) {
-    this.hls = config.hls;
-    this.fragCurrent = config.fragCurrent;
-    this.partCurrent = config.partCurrent;
-    this.currentQuality = config.currentQuality;
-    if (typeof this.sn0 === 'string') this.sn0 = this.fragCurrent.sn;
+  init(context: AbrRuleContext) {
+    this.update(context);
+  }
+
+  destroy() {
+    this.harmonicMeanQ = [];
+    this.fragCurrent = this.partCurrent = null;
+    this.decisionInfo = null;
+  }
+
+  getDecisionInfo() {
+    return this.decisionInfo;
+  }
+
+  private update(context: AbrRuleContext) {
+    this.player = context.player;
+    this.fragCurrent = context.fragCurrent;
+    this.partCurrent = context.partCurrent;
+    this.currentQuality = context.currentQuality;
+    if (typeof this.sn0 === 'string' && this.fragCurrent)
+      this.sn0 = this.fragCurrent.sn;
   }
 
-  getMaxIndex() {
-    const { hls, fragCurrent, currentQuality, sn0 } = this;
-    const { media, config } = hls;
+  getNextQuality(context: AbrRuleContext) {
+    this.update(context);
+    const { player, fragCurrent, currentQuality, sn0 } = this;
+    const { config } = context;
+    const { throughputSafetyFactor, harmonicMeanSize, minBufferLevel } =
+      config.abrLlama;
     const mediaType = fragCurrent ? fragCurrent.type : PlaylistLevelType.MAIN;
-    const pos = media ? media.currentTime : 0;
-    const bufferStateVO = BufferHelper.bufferInfo(
-      media,
-      pos,
-      config.maxBufferHole
-    );
+    const bufferStateVO = player.getBufferInfo(config.maxBufferHole);
     const bufferLevel = parseFloat(bufferStateVO.len.toFixed(2));
     let quality = currentQuality;
 
     if (mediaType === PlaylistLevelType.AUDIO) {
+      this.decisionInfo = { reason: AbrDecisionReason.UNSUPPORTED_MEDIA };
       return currentQuality;
     }
 
     if (!bufferStateVO) {
       quality = 0;
+      this.decisionInfo = { reason: AbrDecisionReason.NO_ESTIMATE };
       return quality;
     }
 
     if (
+      !fragCurrent ||
       typeof sn0 === 'string' ||
       (typeof fragCurrent.sn !== 'string' && Math.abs(fragCurrent.sn - sn0) < 5)
     ) {
       quality = 0;
+      this.decisionInfo = { reason: AbrDecisionReason.STARTUP };
       return quality;
     }
 
@@ -66,20 +83,20 @@ export default class LlamaABR {
     const throughput = Math.round((8 * downloadBytes) / throughputMeasureTime);
 
     this.harmonicMeanQ.push(1 / throughput);
-    if (this.harmonicMeanQ.length > this.HARMONIC_MEAN_SIZE)
+    while (this.harmonicMeanQ.length > harmonicMeanSize)
       this.harmonicMeanQ.shift();
 
     const sampleSize = this.harmonicMeanQ.length;
     let harmonicMean =
       1 / (this.harmonicMeanQ.reduce((a, b) => a + 1 / b) / sampleSize);
-    harmonicMean = harmonicMean * this.THROUGHPUT_SAFETY_FACTOR;
+    harmonicMean = harmonicMean * throughputSafetyFactor;
 
-    const HLSThroughput = !isNaN(hls.bandwidthEstimate)
-      ? hls.bandwidthEstimate / 1000.0
+    const HLSThroughput = !isNaN(player.bandwidthEstimate)
+      ? player.bandwidthEstimate / 1000.0
       : config.abrEwmaDefaultEstimate / 1000.0;
-    const lastThroughput = HLSThroughput * this.THROUGHPUT_SAFETY_FACTOR;
+    const lastThroughput = HLSThroughput * throughputSafetyFactor;
 
-    const bitrates = hls.levels.map((b) => b.bitrate / 1000.0);
+    const bitrates = player.levels.map((b) => b.bitrate / 1000.0);
     const bitrateCount = bitrates.length;
 
     const higherQuality =
@@ -87,20 +104,30 @@ export default class LlamaABR {
     const lowerQuality =
       currentQuality - 1 > 0 ? currentQuality - 1 : currentQuality;
 
+    let reason = AbrDecisionReason.HOLD;
     if (lastThroughput < bitrates[currentQuality]) {
       //switch down
       quality = lowerQuality;
+      reason = AbrDecisionReason.SWITCH_DOWN;
     } else if (
       harmonicMean > bitrates[higherQuality] &&
       lastThroughput > bitrates[higherQuality] &&
-      bufferLevel >= this.MIN_BUFFER_LEVEL
+      bufferLevel >= minBufferLevel
     ) {
       //switch up
       quality = higherQuality;
+      reason = AbrDecisionReason.SWITCH_UP;
     } else {
       //stay the same
       quality = currentQuality;
     }
+    this.decisionInfo = {
+      reason,
+      details: {
+        harmonicMeanKbps: harmonicMean,
+        lastThroughputKbps: lastThroughput,
+      },
+    };
 
     return quality;
   }
@@ -0,0 +1,319 @@
+import { logger } from '../utils/logger';
+import LoLpWeightSelector from './LoLpWeightSelector';
+import LoLpQoeEvaluator from './LoLpQoeEvaluator';
+import LearningAbrController from './LoLpRule';
+import { createSeededRandom } from '../utils/random';
+import type { LoLpLearningState } from './LoLpRule';
+import type { RandomGenerator } from '../utils/random';
+import type { AbrLoLpConfig } from '../abr-config';
+import type {
+  PlayerContext,
+  PlayerLevelDetails,
+} from '../types/player-context';
+import { PlaylistLevelType } from '../types/loader';
+import type { LoaderStats } from '../types/loader';
+import { AbrDecisionReason } from '../types/abr-rule';
+import type {
+  AbrRule,
+  AbrRuleContext,
+  AbrRuleDecisionInfo,
+} from '../types/abr-rule';
+
+type LoLpMediaKind = 'vod' | 'live' | 'event';
+
+export default class LoLpAbrRule implements AbrRule {
+  public readonly playbackRateControl: boolean = true;
+  private player: PlayerContext;
+  private decisionInfo: AbrRuleDecisionInfo | null = null;
+  // SOM, QoE evaluator and weight selector live for the whole session and are only rebuilt when the level ladder changes
+  private learningController: LearningAbrController =
+    new LearningAbrController();
+  private qoeEvaluator: LoLpQoeEvaluator | null = null;
+  private dynamicWeightsSelector: LoLpWeightSelector | null = null;
+  private minBitrateKbps: number = 0;
+  private maxBitrateKbps: number = 0;
+  private segmentDuration: number = 0;
+  // generator shared by the successive learning controllers, re-created when abrLoLp.randomSeed or abrLoLp.random change
+  private random: RandomGenerator = Math.random;
+  private randomSeed: number | undefined;
+  private randomOption: RandomGenerator | null | undefined;
+  // reason of the last declined decision, logged once until the rule acts again
+  private declineReason: AbrDecisionReason | null = null;
+
+  constructor(player: PlayerContext) {
+    this.player = player;
+  }
+
+  init(context: AbrRuleContext) {
+    this.player = context.player;
+  }
+
+  destroy() {
+    this.decisionInfo = null;
+    this.declineReason = null;
+    this.learningController = new LearningAbrController();
+    this.qoeEvaluator = null;
+    this.dynamicWeightsSelector = null;
+    this.random = Math.random;
+    this.randomSeed = this.randomOption = undefined;
+  }
+
+  getDecisionInfo() {
+    return this.decisionInfo;
+  }
+
+  /**
+   * Returns the learned SOM state, null before the first decision
+   * @return {LoLpLearningState | null}
+   */
+  exportState(): LoLpLearningState | null {
+    return this.learningController.exportState();
+  }
+
+  /**
+   * Warm starts the SOM from a state returned by exportState.
+   * A state built for another level ladder is discarded at the next decision.
+   * @param {LoLpLearningState} state
+   */
+  importState(state: LoLpLearningState) {
+    if (!state || !Array.isArray(state.neurons) || !state.neurons.length) {
+      logger.warn('[LoLp] Ignoring invalid learning state');
+      return;
+    }
+    const learningController = new LearningAbrController(this.random);
+    learningController.importState(state);
+    this.learningController = learningController;
+    logger.log(
+      `[LoLp] Learning state imported for ${state.neurons.length} levels`
+    );
+  }
+
+  /**
+   * Use LoL+ for bitrate selection
+   * @param {AbrRuleContext} context
+   * @returns {number} quality
+   */
+  getNextQuality(context: AbrRuleContext) {
+    this.player = context.player;
+    const { player } = this;
+    const { fragCurrent, partCurrent, currentQuality, config } = context;
+
+    if (!fragCurrent || !player.hasMedia) {
+      return this.decline(
+        AbrDecisionReason.NO_FRAGMENT,
+        'no fragment loaded or no media attached',
+        currentQuality
+      );
+    }
+    if (fragCurrent.type !== PlaylistLevelType.MAIN) {
+      return this.decline(
+        AbrDecisionReason.UNSUPPORTED_MEDIA,
+        `${fragCurrent.type} fragments are not adapted`,
+        currentQuality
+      );
+    }
+    const mediaKind = getMediaKind(player.levels[currentQuality]?.details);
+    if (mediaKind === null) {
+      return this.decline(
+        AbrDecisionReason.NO_LEVEL_DETAILS,
+        `level ${currentQuality} playlist is not loaded`,
+        currentQuality
+      );
+    }
+
+    const bufferStateVO = player.getBufferInfo(config.maxBufferHole);
+    const currentBufferLevel = parseFloat(bufferStateVO.len.toFixed(2));
+    // latency only applies to live and EVENT playlists still being appended to
+    const latency = mediaKind !== 'vod' && player.latency ? player.latency : 0;
+
+    const playbackRate =
+      player.playbackRate !== 0 ? Math.abs(player.playbackRate) : 1.0;
+    const throughput = !isNaN(player.bandwidthEstimate)
+      ? player.bandwidthEstimate / 1000.0
+      : config.abrEwmaDefaultEstimate / 1000.0;
+    logger.debug(`Throughput ${Math.round(throughput)} kbps`);
+
+    if (isNaN(throughput) || !bufferStateVO) {
+      return this.decline(
+        AbrDecisionReason.NO_ESTIMATE,
+        'no throughput estimate',
+        currentQuality
+      );
+    }
+    if (this.declineReason !== null) {
+      logger.log(`[LoLp] Adapting ${mediaKind} playlist`);
+      this.declineReason = null;
+    }
+
+    // QoE parameters
+    const bitrateList = player.levels; // [{bandwidth: 200000, width: 640, height: 360}, ...]
+    const segmentDuration = fragCurrent
+      ? fragCurrent.duration
+      : partCurrent
+      ? partCurrent.duration
+      : 0;
+    let minBitrateKbps = bitrateList[0].bitrate / 1000.0; // min bitrate level
+    let maxBitrateKbps = bitrateList[bitrateList.length - 1].bitrate / 1000.0; // max bitrate level
+    for (let i = 0; i < bitrateList.length; i++) {
+      // in case bitrateList is not sorted as expected
+      const b = bitrateList[i].bitrate / 1000.0;
+      if (b > maxBitrateKbps) maxBitrateKbps = b;
+      else if (b < minBitrateKbps) {
+        minBitrateKbps = b;
+      }
+    }
+
+    // Learning rule pre-calculations
+    const currentBitrate = bitrateList[currentQuality].bitrate;
+    const currentBitrateKbps = currentBitrate / 1000.0;
+    const stats: LoaderStats = fragCurrent.stats;
+    const lastFragmentDownloadTime =
+      (stats.loading.end - stats.loading.start) / 1000;
+    const segmentRebufferTime =
+      lastFragmentDownloadTime > segmentDuration
+        ? lastFragmentDownloadTime - segmentDuration
+        : 0;
+    this.updateRandom(config.abrLoLp);
+    if (!this.learningController.matchesBitrateList(bitrateList)) {
+      logger.log('[LoLp] Level ladder changed, rebuilding the learning state');
+      this.learningController = new LearningAbrController(this.random);
+      this.qoeEvaluator = null;
+    }
+    let qoeEvaluator = this.qoeEvaluator;
+    if (!qoeEvaluator) {
+      qoeEvaluator = this.qoeEvaluator = new LoLpQoeEvaluator();
+      qoeEvaluator.setupPerSegmentQoe(
+        segmentDuration,
+        maxBitrateKbps,
+        minBitrateKbps
+      );
+    } else if (
+      segmentDuration !== this.segmentDuration ||
+      maxBitrateKbps !== this.maxBitrateKbps ||
+      minBitrateKbps !== this.minBitrateKbps
+    ) {
+      qoeEvaluator.updatePerSegmentQoeWeights(
+        segmentDuration,
+        maxBitrateKbps,
+        minBitrateKbps
+      );
+    }
+    this.segmentDuration = segmentDuration;
+    this.maxBitrateKbps = maxBitrateKbps;
+    this.minBitrateKbps = minBitrateKbps;
+    qoeEvaluator.logSegmentMetrics(
+      currentBitrateKbps,
+      segmentRebufferTime,
+      latency,
+      playbackRate
+    );
+
+    /*
+     * Dynamic Weights Selector (step 1/2: initialization)
+     */
+    const { abrLoLp } = config;
+    const selectorConfig = {
+      targetLatency: abrLoLp.targetLatency,
+      bufferMin: abrLoLp.bufferMin,
+      segmentDuration,
+      qoeEvaluator,
+      valueList: abrLoLp.weightValueList,
+    };
+    let dynamicWeightsSelector = this.dynamicWeightsSelector;
+    if (!dynamicWeightsSelector) {
+      dynamicWeightsSelector = this.dynamicWeightsSelector =
+        new LoLpWeightSelector(selectorConfig);
+    } else {
+      dynamicWeightsSelector.update(selectorConfig);
+    }
+    const { learningController } = this;
+    learningController.setWeightSelection(
+      abrLoLp.weightSelectionMode,
+      abrLoLp.manualWeights
+    );
+
+    /*
+     * Select next quality
+     */
+    const quality = learningController.getNextQuality(
+      bitrateList,
+      throughput * 1000,
+      latency,
+      currentBufferLevel,
+      playbackRate,
+      currentQuality,
+      dynamicWeightsSelector
+    );
+
+    this.decisionInfo = {
+      reason: learningController.lastDownShift
+        ? AbrDecisionReason.BUFFER_LOW_DOWNSHIFT
+        : AbrDecisionReason.SOM_BEST_MATCH,
+      scoreType: 'som-distance',
+      candidates: learningController.lastDistances.map((distance, level) => ({
+        level,
+        bitrate: bitrateList[level].bitrate,
+        score: distance,
+      })),
+      details: { throughputKbps: throughput },
+    };
+
+    return quality ?? currentQuality;
+  }
+
+  /**
+   * Keeps the current quality, logging why the first time the rule declines for this reason
+   * @param {AbrDecisionReason} reason
+   * @param {string} message
+   * @param {number} currentQuality
+   * @returns {number} quality
+   */
+  private decline(
+    reason: AbrDecisionReason,
+    message: string,
+    currentQuality: number
+  ) {
+    if (reason !== this.declineReason) {
+      logger.log(`[LoLp] Keeping level ${currentQuality}: ${message}`);
+      this.declineReason = reason;
+    }
+    this.decisionInfo = { reason };
+    return currentQuality;
+  }
+
+  /**
+   * Re-creates the generator when its config changed, so that a seed always starts a new sequence
+   * @param {AbrLoLpConfig} abrLoLp
+   */
+  private updateRandom(abrLoLp: AbrLoLpConfig) {
+    const { random, randomSeed } = abrLoLp;
+    if (
+      random === this.randomOption &&
+      Object.is(randomSeed, this.randomSeed)
+    ) {
+      return;
+    }
+    this.randomOption = random;
+    this.randomSeed = randomSeed;
+    this.random =
+      random ||
+      (isNaN(randomSeed) ? Math.random : createSeededRandom(randomSeed));
+    this.learningController.setRandom(this.random);
+  }
+}
+
+/**
+ * Returns the kind of playlist, null when its details are not loaded yet
+ * @param {PlayerLevelDetails} details
+ * @returns {LoLpMediaKind | null}
+ */
+function getMediaKind(details?: PlayerLevelDetails): LoLpMediaKind | null {
+  if (!details) {
+    return null;
+  }
+  if (!details.live) {
+    // VOD and EVENT playlists that reached EXT-X-ENDLIST
+    return 'vod';
+  }
+  return details.type === 'EVENT' ? 'event' : 'live';
+}
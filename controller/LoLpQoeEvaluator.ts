@@ -25,6 +25,35 @@ export default class LoLpQoeEvaluator {
     this.minBitrateKbps = minBrKbps;
   }
 
+  /**
+   * Updates the weights of the Per Segment QoeInfo without resetting its weighted sums
+   * @param {number} sDuration
+   * @param {number} maxBrKbps
+   * @param {number} minBrKbps
+   */
+  updatePerSegmentQoeWeights(sDuration, maxBrKbps, minBrKbps) {
+    if (this.voPerSegmentQoeInfo) {
+      this.voPerSegmentQoeInfo.weights = this._createQoeInfo(
+        'segment',
+        sDuration,
+        maxBrKbps,
+        minBrKbps
+      ).weights;
+    }
+    this.segmentDuration = sDuration;
+    this.maxBitrateKbps = maxBrKbps;
+    this.minBitrateKbps = minBrKbps;
+  }
+
+  /**
+   * Forgets the last bitrate so that no switch penalty is applied to the next segment
+   */
+  resetLastBitrate() {
+    if (this.voPerSegmentQoeInfo) {
+      this.voPerSegmentQoeInfo.lastBitrate = null;
+    }
+  }
+
   /**
    * Creates and Returns a QoeInfo object
    * @param {string} fragmentType
@@ -173,12 +202,14 @@ export default class LoLpQoeEvaluator {
    * @param {number} segmentRebufferTime
    * @param {number} currentLatency
    * @param {number} currentPlaybackSpeed
+   * @param {number | null} lastBitrate - bitrate of the previous segment, to include the switch penalty
    */
   calculateSingleUseQoe(
     segmentBitrate,
     segmentRebufferTime,
     currentLatency,
-    currentPlaybackSpeed
+    currentPlaybackSpeed,
+    lastBitrate: number | null = null
   ) {
     let singleUseQoeInfo: QoeInfo | null = null;
 
@@ -192,6 +223,7 @@ export default class LoLpQoeEvaluator {
     }
 
     if (singleUseQoeInfo) {
+      singleUseQoeInfo.lastBitrate = lastBitrate;
       this._logMetricsInQoeInfo(
         segmentBitrate,
         segmentRebufferTime,
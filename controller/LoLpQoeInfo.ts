@@ -1,9 +1,9 @@
-type LatencyP = {
+export type LatencyP = {
   threshold: number;
   penalty: number;
 };
 
-type Weight = {
+export type Weight = {
   bitrateReward: number | null;
   bitrateSwitchPenalty: number | null;
   rebufferPenalty: number | null;
@@ -0,0 +1,185 @@
+import LoLpQoeEvaluator from './LoLpQoeEvaluator';
+import type QoeInfo from './LoLpQoeInfo';
+import type { AbrQoeSessionSummary, AbrQoeTerms } from '../types/abr-events';
+
+export type QoeSegmentMetrics = {
+  sn: number;
+  // discontinuity counter
+  cc: number;
+  level: number;
+  // segment duration (s)
+  duration: number;
+  bitrateKbps: number;
+  minBitrateKbps: number;
+  maxBitrateKbps: number;
+  rebufferTime: number;
+  latency: number;
+  playbackRate: number;
+};
+
+/**
+ * Accumulates the LoL+ QoE of every segment of a playback session
+ */
+export default class LoLpQoeSession {
+  private qoeEvaluator: LoLpQoeEvaluator = new LoLpQoeEvaluator();
+  private initialized: boolean = false;
+  private minBitrateKbps: number = 0;
+  private maxBitrateKbps: number = 0;
+  private lastSn: number | null = null;
+  private lastCc: number | null = null;
+  private lastLevel: number | null = null;
+  private lastBitrateKbps: number | null = null;
+
+  private segmentCount: number = 0;
+  private duration: number = 0;
+  private bitrateSum: number = 0;
+  private switchCount: number = 0;
+  private switchMagnitude: number = 0;
+  private stallCount: number = 0;
+  private stallDuration: number = 0;
+  private latencySum: number = 0;
+  private playbackSpeedDeviationSum: number = 0;
+
+  /**
+   * Accounts a segment in the session QoE. A segment already accounted at the same level is ignored.
+   * Seeks (non consecutive sn) and discontinuities break the switch history so that no switch is penalised across them.
+   * @param {QoeSegmentMetrics} segment
+   * @return {AbrQoeTerms | null} contribution of the segment, null if it was already accounted
+   */
+  logSegment(segment: QoeSegmentMetrics): AbrQoeTerms | null {
+    const { qoeEvaluator } = this;
+    const { sn, cc, level, bitrateKbps, rebufferTime, latency, playbackRate } =
+      segment;
+    if (sn === this.lastSn && level === this.lastLevel) {
+      return null;
+    }
+
+    if (!this.initialized) {
+      qoeEvaluator.setupPerSegmentQoe(
+        segment.duration,
+        segment.maxBitrateKbps,
+        segment.minBitrateKbps
+      );
+      this.initialized = true;
+    } else if (
+      segment.minBitrateKbps !== this.minBitrateKbps ||
+      segment.maxBitrateKbps !== this.maxBitrateKbps
+    ) {
+      // level ladder changed: keep the sums, only update the weights
+      qoeEvaluator.updatePerSegmentQoeWeights(
+        segment.duration,
+        segment.maxBitrateKbps,
+        segment.minBitrateKbps
+      );
+    }
+    this.minBitrateKbps = segment.minBitrateKbps;
+    this.maxBitrateKbps = segment.maxBitrateKbps;
+
+    const continuous =
+      this.lastSn !== null && cc === this.lastCc && sn === this.lastSn + 1;
+    if (!continuous) {
+      qoeEvaluator.resetLastBitrate();
+    } else if (
+      this.lastBitrateKbps !== null &&
+      bitrateKbps !== this.lastBitrateKbps
+    ) {
+      this.switchCount++;
+      this.switchMagnitude += Math.abs(bitrateKbps - this.lastBitrateKbps);
+    }
+
+    const qoeInfo = qoeEvaluator.getPerSegmentQoe() as QoeInfo;
+    const before = this._getTerms(qoeInfo);
+    qoeEvaluator.logSegmentMetrics(
+      bitrateKbps,
+      rebufferTime,
+      latency,
+      playbackRate
+    );
+    const after = this._getTerms(qoeInfo);
+
+    this.segmentCount++;
+    this.duration += segment.duration;
+    this.bitrateSum += bitrateKbps;
+    if (rebufferTime > 0) {
+      this.stallCount++;
+      this.stallDuration += rebufferTime;
+    }
+    this.latencySum += latency;
+    this.playbackSpeedDeviationSum += Math.abs(1 - playbackRate);
+
+    this.lastSn = sn;
+    this.lastCc = cc;
+    this.lastLevel = level;
+    this.lastBitrateKbps = bitrateKbps;
+
+    return {
+      totalQoe: after.totalQoe - before.totalQoe,
+      bitrateWSum: after.bitrateWSum - before.bitrateWSum,
+      bitrateSwitchWSum: after.bitrateSwitchWSum - before.bitrateSwitchWSum,
+      rebufferWSum: after.rebufferWSum - before.rebufferWSum,
+      latencyWSum: after.latencyWSum - before.latencyWSum,
+      playbackSpeedWSum: after.playbackSpeedWSum - before.playbackSpeedWSum,
+    };
+  }
+
+  /**
+   * Returns the weights used for the session QoE, null before the first segment
+   */
+  getWeights() {
+    const qoeInfo = this.qoeEvaluator.getPerSegmentQoe();
+    return qoeInfo ? qoeInfo.weights : null;
+  }
+
+  /**
+   * Returns the session metrics accumulated so far
+   * @return {AbrQoeSessionSummary}
+   */
+  getSummary(): AbrQoeSessionSummary {
+    const qoeInfo = this.qoeEvaluator.getPerSegmentQoe();
+    const count = this.segmentCount;
+    const terms = qoeInfo
+      ? this._getTerms(qoeInfo)
+      : {
+          totalQoe: 0,
+          bitrateWSum: 0,
+          bitrateSwitchWSum: 0,
+          rebufferWSum: 0,
+          latencyWSum: 0,
+          playbackSpeedWSum: 0,
+        };
+    return Object.assign(terms, {
+      segmentCount: count,
+      duration: this.duration,
+      averageBitrate: count ? this.bitrateSum / count : 0,
+      switchCount: this.switchCount,
+      switchMagnitude: this.switchMagnitude,
+      averageSwitchMagnitude: this.switchCount
+        ? this.switchMagnitude / this.switchCount
+        : 0,
+      stallCount: this.stallCount,
+      stallDuration: this.stallDuration,
+      averageLatency: count ? this.latencySum / count : 0,
+      averagePlaybackSpeedDeviation: count
+        ? this.playbackSpeedDeviationSum / count
+        : 0,
+    });
+  }
+
+  /**
+   * Returns whether at least one segment has been accounted
+   */
+  hasSegments(): boolean {
+    return this.segmentCount > 0;
+  }
+
+  private _getTerms(qoeInfo: QoeInfo): AbrQoeTerms {
+    return {
+      totalQoe: qoeInfo.totalQoe,
+      bitrateWSum: qoeInfo.bitrateWSum,
+      bitrateSwitchWSum: qoeInfo.bitrateSwitchWSum,
+      rebufferWSum: qoeInfo.rebufferWSum,
+      latencyWSum: qoeInfo.latencyWSum,
+      playbackSpeedWSum: qoeInfo.playbackSpeedWSum,
+    };
+  }
+}
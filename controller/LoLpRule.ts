@@ -1,4 +1,5 @@
 import { logger } from '../utils/logger';
+import type { RandomGenerator } from '../utils/random';
 
 type State = {
   throughput: number;
@@ -13,6 +14,15 @@ type Neuron = {
   state: State;
 };
 
+export type LoLpLearningState = {
+  // bitrates (bps) of the level ladder the neurons were built for
+  bitrates: number[];
+  neurons: Neuron[];
+  weights: number[] | null;
+  sortedCenters: number[][] | null;
+  bitrateNormalizationFactor: number;
+};
+
 export default class LearningAbrController {
   // const context = this.context;
   private readonly WEIGHT_SELECTION_MODES = {
@@ -28,6 +38,85 @@ export default class LearningAbrController {
   private weights: number[] | null = null;
   private sortedCenters: number[][] | null = null;
   private weightSelectionMode: string = this.WEIGHT_SELECTION_MODES.DYNAMIC;
+  private manualWeights: number[] = [0.4, 0.4, 0.4, 0.4];
+  // Weighted distances of each neuron to the target computed by the last getNextQuality call, indexed by quality
+  public lastDistances: number[] = [];
+  // Whether the last getNextQuality call returned an emergency down shift
+  public lastDownShift: boolean = false;
+  private random: RandomGenerator;
+
+  constructor(random: RandomGenerator = Math.random) {
+    this.random = random;
+  }
+
+  /**
+   * Sets the generator used for the k-means++ centres and Xavier weights
+   * @param {RandomGenerator} random
+   */
+  setRandom(random: RandomGenerator) {
+    this.random = random;
+  }
+
+  /**
+   * Sets how the SOM distance weights are chosen at the next decisions
+   * @param {string} weightSelectionMode
+   * @param {number[]} manualWeights - [throughput, latency, buffer, switch] weights of the manual mode
+   */
+  setWeightSelection(weightSelectionMode: string, manualWeights: number[]) {
+    this.weightSelectionMode = weightSelectionMode;
+    this.manualWeights = manualWeights.slice();
+  }
+
+  /**
+   * Returns a serializable copy of the SOM neurons, weights and k-means++ centres,
+   * null before the neurons are built
+   * @return {LoLpLearningState | null}
+   */
+  exportState(): LoLpLearningState | null {
+    if (!this.somBitrateNeurons) {
+      return null;
+    }
+    return JSON.parse(
+      JSON.stringify({
+        bitrates: this.somBitrateNeurons.map((neuron) => neuron.bitrate),
+        neurons: this.somBitrateNeurons,
+        weights: this.weights,
+        sortedCenters: this.sortedCenters,
+        bitrateNormalizationFactor: this.bitrateNormalizationFactor,
+      })
+    );
+  }
+
+  /**
+   * Restores neurons, weights and k-means++ centres exported by exportState
+   * @param {LoLpLearningState} learningState
+   */
+  importState(learningState: LoLpLearningState) {
+    const { neurons } = JSON.parse(JSON.stringify(learningState));
+    this.somBitrateNeurons = neurons;
+    this.weights = learningState.weights ? learningState.weights.slice() : null;
+    this.sortedCenters = learningState.sortedCenters
+      ? learningState.sortedCenters.map((center) => center.slice())
+      : null;
+    this.bitrateNormalizationFactor = learningState.bitrateNormalizationFactor;
+    this.minBitrate = Math.min(...learningState.bitrates);
+    this.minBitrateNeuron =
+      neurons.find((neuron) => neuron.bitrate === this.minBitrate) || null;
+  }
+
+  /**
+   * Returns whether the neurons were built for the given level ladder
+   * @param {Array} bitrateList
+   * @return {boolean}
+   */
+  matchesBitrateList(bitrateList): boolean {
+    const neurons = this.somBitrateNeurons;
+    return (
+      !neurons ||
+      (neurons.length === bitrateList.length &&
+        neurons.every((neuron, i) => neuron.bitrate === bitrateList[i].bitrate))
+    );
+  }
 
   /**
    * Returns the maximum throughput
@@ -218,6 +307,9 @@ export default class LearningAbrController {
       `getNextQuality called throughput:${throughputNormalized} latency:${latency} bufferSize:${bufferSize} currentQualityIndex:${currentQualityIndex} playbackRate:${playbackRate}`
     );
 
+    this.lastDistances = [];
+    this.lastDownShift = false;
+
     const currentNeuron = somElements[currentQualityIndex];
     const downloadTime =
       (currentNeuron.bitrate * dynamicWeightsSelector.getSegmentDuration()) /
@@ -229,6 +321,7 @@ export default class LearningAbrController {
       logger.debug(
         `Buffer is low for bitrate= ${currentNeuron.bitrate} downloadTime=${downloadTime} currentBuffer=${currentBuffer} rebuffer=${rebuffer}`
       );
+      this.lastDownShift = true;
       return this._getDownShiftNeuron(currentNeuron, currentThroughput)
         .qualityIndex;
     }
@@ -309,6 +402,7 @@ export default class LearningAbrController {
         ],
         distanceWeights
       );
+      this.lastDistances[somNeuron.qualityIndex] = distance;
       if (minDistance === null || distance < minDistance) {
         minDistance = distance;
         minIndex = somNeuron.qualityIndex;
@@ -345,10 +439,8 @@ export default class LearningAbrController {
    * Set manually pre-selected weights
    */
   _manualWeightSelection() {
-    const throughputWeight = 0.4;
-    const latencyWeight = 0.4;
-    const bufferWeight = 0.4;
-    const switchWeight = 0.4;
+    const [throughputWeight, latencyWeight, bufferWeight, switchWeight] =
+      this.manualWeights;
 
     this.weights = [
       throughputWeight,
@@ -416,7 +508,7 @@ export default class LearningAbrController {
     const upperBound = Math.sqrt(2 / neuronCount);
 
     for (let i = 0; i < weightCount; i++) {
-      W.push(Math.random() * upperBound);
+      W.push(this.random() * upperBound);
     }
 
     this.weights = W;
@@ -482,10 +574,10 @@ export default class LearningAbrController {
 
     for (let i = 0; i < size; i++) {
       const data = [
-        Math.random() * this._getMaxThroughput(), //throughput
-        Math.random(), //latency
-        Math.random(), //buffersize
-        Math.random(), //switch
+        this.random() * this._getMaxThroughput(), //throughput
+        this.random(), //latency
+        this.random(), //buffersize
+        this.random(), //switch
       ];
       dataArray.push(data);
     }
@@ -15,9 +15,33 @@ export default class LoLpWeightSelector {
     this.bufferMin = config.bufferMin;
     this.segmentDuration = config.segmentDuration;
     this.qoeEvaluator = config.qoeEvaluator;
+    if (config.valueList) {
+      this.valueList = config.valueList.slice();
+    }
     this.weightOptions = this._getPermutations();
   }
 
+  /**
+   * Update constraints and segment duration at each boundary, keeping the previous latency.
+   * The weight vectors are only regenerated when the value list changes.
+   * @param {object} config
+   */
+  update(config) {
+    this.targetLatency = config.targetLatency;
+    this.bufferMin = config.bufferMin;
+    this.segmentDuration = config.segmentDuration;
+    this.qoeEvaluator = config.qoeEvaluator;
+    const { valueList } = config;
+    if (
+      valueList &&
+      (valueList.length !== this.valueList.length ||
+        valueList.some((value, i) => value !== this.valueList[i]))
+    ) {
+      this.valueList = valueList.slice();
+      this.weightOptions = this._getPermutations();
+    }
+  }
+
   /**
    * Next, at each segment boundary, ABR to input current neurons and target state (only used in Method II) to find the desired weight vector
    * @param {array} neurons
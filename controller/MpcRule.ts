@@ -0,0 +1,260 @@
+import { PlaylistLevelType } from '../types/loader';
+import { logger } from '../utils/logger';
+import { AbrDecisionReason } from '../types/abr-rule';
+import { lookupFastMpcTable, solveMpc } from './mpc-solver';
+import type { FragBufferedData } from '../types/events';
+import type { PlayerContext } from '../types/player-context';
+import type { AbrHlsConfig } from '../abr-config';
+import type { FastMpcTable } from './mpc-solver';
+import type {
+  AbrRule,
+  AbrRuleContext,
+  AbrRuleDecisionInfo,
+} from '../types/abr-rule';
+
+// For a description of RobustMPC and FastMPC see https://doi.org/10.1145/2785956.2787486
+
+// relative difference between the table part duration and the stream part duration still accepted
+const FAST_MPC_DURATION_TOLERANCE = 0.1;
+
+export default class MpcRule implements AbrRule {
+  private player: PlayerContext;
+  // set at each boundary by update
+  private config!: AbrHlsConfig;
+  // bps, one sample per buffered part or segment
+  private throughputSamples: number[] = [];
+  // relative errors of the past harmonic mean predictions
+  private predictionErrors: number[] = [];
+  // harmonic mean predicted at the last decision, NaN before the first one
+  private lastPrediction: number = NaN;
+  // table rejected because it does not match the stream, warned once
+  private rejectedTable: FastMpcTable | null = null;
+  private decisionInfo: AbrRuleDecisionInfo | null = null;
+
+  constructor(player: PlayerContext) {
+    this.player = player;
+  }
+
+  init(context: AbrRuleContext) {
+    this.update(context);
+  }
+
+  destroy() {
+    this.throughputSamples = [];
+    this.predictionErrors = [];
+    this.lastPrediction = NaN;
+    this.rejectedTable = null;
+    this.decisionInfo = null;
+  }
+
+  getDecisionInfo() {
+    return this.decisionInfo;
+  }
+
+  private update(context: AbrRuleContext) {
+    this.player = context.player;
+    this.config = context.config;
+  }
+
+  onFragBuffered(data: FragBufferedData) {
+    const { frag, part } = data;
+    if (frag.type !== PlaylistLevelType.MAIN) {
+      return;
+    }
+    const stats = part ? part.stats : frag.stats;
+    const loadTime = stats.loading.end - stats.loading.start;
+    if (!(loadTime > 0) || !stats.loaded) {
+      return;
+    }
+    const throughput = (8000 * stats.loaded) / loadTime;
+    const { harmonicMeanSize, errorWindowSize } = this.config.abrMpc;
+    if (this.lastPrediction > 0) {
+      this.predictionErrors.push(
+        Math.abs(this.lastPrediction - throughput) / throughput
+      );
+      while (this.predictionErrors.length > errorWindowSize) {
+        this.predictionErrors.shift();
+      }
+    }
+    this.throughputSamples.push(throughput);
+    while (this.throughputSamples.length > harmonicMeanSize) {
+      this.throughputSamples.shift();
+    }
+  }
+
+  /**
+   * Returns the first level of the plan maximizing the QoE over the next parts (or segments)
+   * @param {AbrRuleContext} context
+   * @return {number} quality
+   */
+  getNextQuality(context: AbrRuleContext) {
+    this.update(context);
+    const { player, config } = this;
+    const { fragCurrent, currentQuality } = context;
+    const { harmonicMeanSize, errorWindowSize, horizon, fastMpcTable } =
+      config.abrMpc;
+    if (fragCurrent && fragCurrent.type === PlaylistLevelType.AUDIO) {
+      this.decisionInfo = { reason: AbrDecisionReason.UNSUPPORTED_MEDIA };
+      return currentQuality;
+    }
+    const samples = this.throughputSamples.slice(-harmonicMeanSize);
+    const harmonicMean = samples.length
+      ? samples.length / samples.reduce((sum, sample) => sum + 1 / sample, 0)
+      : player.bandwidthEstimate;
+    if (!(harmonicMean > 0)) {
+      this.decisionInfo = { reason: AbrDecisionReason.NO_ESTIMATE };
+      return currentQuality;
+    }
+    this.lastPrediction = harmonicMean;
+    const errors = errorWindowSize
+      ? this.predictionErrors.slice(-errorWindowSize)
+      : [];
+    const maxError = errors.length ? Math.max(...errors) : 0;
+    const throughput = harmonicMean / (1 + maxError);
+    const durations = getLookaheadDurations(context, horizon);
+    if (!durations) {
+      this.decisionInfo = { reason: AbrDecisionReason.NO_FRAGMENT };
+      return currentQuality;
+    }
+    const bitrates = player.levels.map((level) => level.bitrate);
+    const bufferLevel = player.getBufferInfo(config.maxBufferHole).len;
+    const details: Record<string, number> = {
+      harmonicMeanKbps: harmonicMean / 1000,
+      robustThroughputKbps: throughput / 1000,
+      maxError,
+      bufferLevel,
+      horizon: durations.length,
+    };
+    if (
+      fastMpcTable &&
+      this.acceptTable(fastMpcTable, bitrates, durations[0], player.isLive)
+    ) {
+      this.decisionInfo = {
+        reason: AbrDecisionReason.STEADY,
+        details: Object.assign(details, { fastMpc: 1 }),
+      };
+      return lookupFastMpcTable(
+        fastMpcTable,
+        currentQuality,
+        bufferLevel,
+        throughput
+      );
+    }
+    const plan = solveMpc({
+      bitrates,
+      durations,
+      bufferLevel,
+      latency: player.isLive ? player.latency : 0,
+      // planned at the rate set by the catch-up controller
+      playbackRate: player.playbackRate,
+      throughput,
+      lastQuality: currentQuality,
+      isLive: player.isLive,
+    });
+    this.decisionInfo = {
+      reason: AbrDecisionReason.STEADY,
+      scoreType: 'mpc-qoe',
+      candidates: plan.scores.map((score, level) => ({
+        level,
+        bitrate: bitrates[level],
+        score,
+      })),
+      details,
+    };
+    return plan.quality;
+  }
+
+  /**
+   * Returns whether the table was solved for the level ladder, part duration and playlist type of
+   * the stream, warning once otherwise
+   * @param {FastMpcTable} table
+   * @param {number[]} bitrates
+   * @param {number} partDuration - s, of the next part (or segment)
+   * @param {boolean} isLive
+   * @return {boolean}
+   */
+  private acceptTable(
+    table: FastMpcTable,
+    bitrates: number[],
+    partDuration: number,
+    isLive: boolean
+  ): boolean {
+    let mismatch: string | null = null;
+    if (
+      table.bitrates.length !== bitrates.length ||
+      table.bitrates.some((bitrate, i) => bitrate !== bitrates[i])
+    ) {
+      mismatch = 'another level ladder';
+    } else if (table.isLive !== isLive) {
+      mismatch = table.isLive ? 'a live stream' : 'a VOD stream';
+    } else if (
+      Math.abs(table.partDuration - partDuration) >
+      FAST_MPC_DURATION_TOLERANCE * partDuration
+    ) {
+      mismatch = `${table.partDuration} s parts, the stream has ${partDuration} s parts`;
+    }
+    if (mismatch === null) {
+      return true;
+    }
+    if (this.rejectedTable !== table) {
+      this.rejectedTable = table;
+      logger.warn(
+        `[MpcRule] FastMPC table solved for ${mismatch}, solving online`
+      );
+    }
+    return false;
+  }
+}
+
+/**
+ * Returns the durations of the next parts, or segments without parts, from the level details.
+ * Steps past the end of the playlist use the part (or segment) target duration.
+ * @param {AbrRuleContext} context
+ * @param {number} horizon
+ * @return {number[] | null} null when no duration is known
+ */
+function getLookaheadDurations(
+  context: AbrRuleContext,
+  horizon: number
+): number[] | null {
+  const { player, fragCurrent, partCurrent } = context;
+  if (!fragCurrent) {
+    return null;
+  }
+  const details = player.levels[fragCurrent.level]?.details;
+  const durations: number[] = [];
+  let targetDuration = partCurrent
+    ? partCurrent.duration
+    : fragCurrent.duration;
+  if (details) {
+    if (partCurrent && details.partList) {
+      const { partList } = details;
+      const index = partList.findIndex(
+        (part) =>
+          part.fragment.sn === fragCurrent.sn &&
+          part.index === partCurrent.index
+      );
+      for (let i = index + 1; index >= 0 && i < partList.length; i++) {
+        durations.push(partList[i].duration);
+      }
+      targetDuration = details.partTarget || targetDuration;
+    } else if (!partCurrent && details.fragments) {
+      const { fragments } = details;
+      const index = fragments.findIndex(
+        (fragment) => fragment.sn === fragCurrent.sn
+      );
+      for (let i = index + 1; index >= 0 && i < fragments.length; i++) {
+        durations.push(fragments[i].duration);
+      }
+      targetDuration = details.targetduration || targetDuration;
+    }
+  }
+  if (!(targetDuration > 0)) {
+    return null;
+  }
+  durations.length = Math.min(durations.length, horizon);
+  while (durations.length < horizon) {
+    durations.push(targetDuration);
+  }
+  return durations;
+}
@@ -0,0 +1,167 @@
+import { PlaylistLevelType } from '../types/loader';
+import { AbrDecisionReason } from '../types/abr-rule';
+import { getQualityForBitrate } from './abr-rules-collection';
+import type { FragBufferedData } from '../types/events';
+import type { PlayerContext } from '../types/player-context';
+import type { AbrHlsConfig } from '../abr-config';
+import type {
+  AbrRule,
+  AbrRuleContext,
+  AbrRuleDecisionInfo,
+} from '../types/abr-rule';
+
+// For a description of PANDA (probe and adapt) see https://doi.org/10.1109/JSAC.2014.140405
+
+export default class PandaRule implements AbrRule {
+  private player: PlayerContext;
+  // set at each boundary by update
+  private config!: AbrHlsConfig;
+  // probed bandwidth share x^ (bps), NaN before the first part
+  private targetRate: number = NaN;
+  // smoothed bandwidth share y^ (bps)
+  private smoothedRate: number = NaN;
+  // throughput x~ (bps) of the last part, measured from its first byte
+  private measuredRate: number = NaN;
+  // request time (ms) of the last part
+  private lastRequestStart: number = NaN;
+  // s, actual time between the last two requests
+  private interRequestTime: number = NaN;
+  private decisionInfo: AbrRuleDecisionInfo | null = null;
+
+  constructor(player: PlayerContext) {
+    this.player = player;
+  }
+
+  init(context: AbrRuleContext) {
+    this.update(context);
+  }
+
+  destroy() {
+    this.targetRate = this.smoothedRate = this.measuredRate = NaN;
+    this.lastRequestStart = this.interRequestTime = NaN;
+    this.decisionInfo = null;
+  }
+
+  getDecisionInfo() {
+    return this.decisionInfo;
+  }
+
+  private update(context: AbrRuleContext) {
+    this.player = context.player;
+    this.config = context.config;
+  }
+
+  onFragBuffered(data: FragBufferedData) {
+    const { frag, part } = data;
+    if (frag.type !== PlaylistLevelType.MAIN) {
+      return;
+    }
+    const stats = part ? part.stats : frag.stats;
+    // blocking playlist reloads and preload hints hold the request until the part is published:
+    // the transfer is measured from the first byte so that the hold time does not lower the rate
+    const transferTime =
+      stats.loading.end - (stats.loading.first || stats.loading.start);
+    if (!(transferTime > 0) || !stats.loaded) {
+      return;
+    }
+    this.measuredRate = (8000 * stats.loaded) / transferTime;
+    const interRequestTime =
+      (stats.loading.start - this.lastRequestStart) / 1000;
+    this.interRequestTime =
+      interRequestTime > 0
+        ? interRequestTime
+        : (stats.loading.end - stats.loading.start) / 1000;
+    this.lastRequestStart = stats.loading.start;
+    this.updateTargetRate();
+  }
+
+  /**
+   * Probes the bandwidth share with additive increase and multiplicative decrease, then smooths it
+   */
+  private updateTargetRate() {
+    const { measuredRate, interRequestTime } = this;
+    const { probeConvergenceRate, probeIncrement, smoothingRate } =
+      this.config.abrPanda;
+    if (isNaN(this.targetRate)) {
+      this.targetRate = this.smoothedRate = measuredRate;
+      return;
+    }
+    // x^[n] = x^[n-1] + kappa * T[n-1] * (w - max(0, x^[n-1] - x~[n-1] + w))
+    this.targetRate = Math.max(
+      0,
+      this.targetRate +
+        probeConvergenceRate *
+          interRequestTime *
+          (probeIncrement -
+            Math.max(0, this.targetRate - measuredRate + probeIncrement))
+    );
+    // y^[n] = y^[n-1] - T[n-1] * alpha * (y^[n-1] - x^[n])
+    this.smoothedRate -=
+      Math.min(1, interRequestTime * smoothingRate) *
+      (this.smoothedRate - this.targetRate);
+  }
+
+  /**
+   * Quantizes the smoothed bandwidth share onto the levels with a dead zone
+   * @param {AbrRuleContext} context
+   * @return {number} quality
+   */
+  getNextQuality(context: AbrRuleContext) {
+    this.update(context);
+    const { player, config, smoothedRate } = this;
+    const { fragCurrent, partCurrent, currentQuality } = context;
+    const { deadZone, bufferConvergenceRate, minBuffer } = config.abrPanda;
+    if (fragCurrent && fragCurrent.type === PlaylistLevelType.AUDIO) {
+      this.decisionInfo = { reason: AbrDecisionReason.UNSUPPORTED_MEDIA };
+      return currentQuality;
+    }
+    if (isNaN(smoothedRate)) {
+      this.decisionInfo = { reason: AbrDecisionReason.NO_ESTIMATE };
+      return currentQuality;
+    }
+    const { levels } = player;
+    // switch up only to a level below the share minus the dead zone, switch down as soon as the level exceeds it
+    const upQuality = getQualityForBitrate(
+      levels,
+      smoothedRate * (1 - deadZone)
+    );
+    const downQuality = getQualityForBitrate(levels, smoothedRate);
+    let quality: number;
+    let reason: AbrDecisionReason;
+    if (currentQuality < upQuality) {
+      quality = upQuality;
+      reason = AbrDecisionReason.SWITCH_UP;
+    } else if (currentQuality <= downQuality) {
+      quality = currentQuality;
+      reason = AbrDecisionReason.HOLD;
+    } else {
+      quality = downQuality;
+      reason = AbrDecisionReason.SWITCH_DOWN;
+    }
+    // reported only, hls.js does not let ABR rules defer requests
+    // T^[n] = r[n] * tau / y^[n] + beta * (B[n-1] - Bmin)
+    const bufferLevel = player.getBufferInfo(config.maxBufferHole).len;
+    const duration = partCurrent
+      ? partCurrent.duration
+      : fragCurrent
+      ? fragCurrent.duration
+      : 0;
+    const targetInterRequestTime = Math.max(
+      0,
+      (levels[quality].bitrate * duration) / smoothedRate +
+        bufferConvergenceRate * (bufferLevel - minBuffer)
+    );
+    this.decisionInfo = {
+      reason,
+      details: {
+        targetRateKbps: this.targetRate / 1000,
+        smoothedRateKbps: smoothedRate / 1000,
+        measuredRateKbps: this.measuredRate / 1000,
+        interRequestTime: this.interRequestTime,
+        targetInterRequestTime,
+        bufferLevel,
+      },
+    };
+    return quality;
+  }
+}
@@ -0,0 +1,259 @@
+import { PlaylistLevelType } from '../types/loader';
+import { logger } from '../utils/logger';
+import { AbrDecisionReason } from '../types/abr-rule';
+import { getQualityForBitrate } from './abr-rules-collection';
+import { isPensieveModel, runPensieveModel } from './pensieve-model';
+import type { FragBufferedData } from '../types/events';
+import type { PlayerContext } from '../types/player-context';
+import type { AbrHlsConfig } from '../abr-config';
+import type { PensieveFeatures, PensieveModel } from './pensieve-model';
+import type {
+  AbrRule,
+  AbrRuleContext,
+  AbrRuleDecisionInfo,
+} from '../types/abr-rule';
+
+// For a description of Pensieve see https://doi.org/10.1145/3098822.3098843
+
+// samples kept before a model gives the history length, the state length of the Pensieve paper
+const DEFAULT_HISTORY_LENGTH = 8;
+
+export default class PensieveRule implements AbrRule {
+  private player: PlayerContext;
+  // set at each boundary by update
+  private config!: AbrHlsConfig;
+  // one sample per buffered part or segment, oldest first
+  private bitrates: number[] = [];
+  // bps
+  private throughputs: number[] = [];
+  // s
+  private downloadTimes: number[] = [];
+  // URL of the model being loaded or loaded, pending loads of another URL are discarded
+  private modelUrl: string | null = null;
+  private loadedModel: PensieveModel | null = null;
+  // model rejected because its shapes do not fit the features or the levels, warned once
+  private rejectedModel: PensieveModel | null = null;
+  private decisionInfo: AbrRuleDecisionInfo | null = null;
+
+  constructor(player: PlayerContext) {
+    this.player = player;
+  }
+
+  init(context: AbrRuleContext) {
+    this.update(context);
+  }
+
+  destroy() {
+    this.bitrates = [];
+    this.throughputs = [];
+    this.downloadTimes = [];
+    this.modelUrl = null;
+    this.loadedModel = null;
+    this.rejectedModel = null;
+    this.decisionInfo = null;
+  }
+
+  getDecisionInfo() {
+    return this.decisionInfo;
+  }
+
+  private update(context: AbrRuleContext) {
+    this.player = context.player;
+    this.config = context.config;
+    const { model, modelUrl } = this.config.abrPensieve;
+    if (!model && modelUrl && modelUrl !== this.modelUrl) {
+      this.modelUrl = modelUrl;
+      this.loadedModel = null;
+      this.loadModel(modelUrl);
+    }
+  }
+
+  private loadModel(url: string) {
+    fetch(url)
+      .then((response) => {
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+        return response.json();
+      })
+      .then((json: unknown) => {
+        if (url !== this.modelUrl) {
+          return;
+        }
+        if (!isPensieveModel(json)) {
+          throw new Error('not a Pensieve model');
+        }
+        this.loadedModel = json;
+        logger.log(`[PensieveRule] Model loaded from ${url}`);
+      })
+      .catch((error) => {
+        if (url === this.modelUrl) {
+          logger.warn(
+            `[PensieveRule] Could not load the model from ${url}: ${error.message}`
+          );
+        }
+      });
+  }
+
+  private getModel(): PensieveModel | null {
+    return this.config.abrPensieve.model || this.loadedModel;
+  }
+
+  onFragBuffered(data: FragBufferedData) {
+    const { frag, part } = data;
+    if (frag.type !== PlaylistLevelType.MAIN) {
+      return;
+    }
+    const stats = part ? part.stats : frag.stats;
+    const loadTime = stats.loading.end - stats.loading.start;
+    const level = this.player.levels[frag.level];
+    if (!(loadTime > 0) || !stats.loaded || !level) {
+      return;
+    }
+    const model = this.getModel();
+    const historyLength = model
+      ? model.historyLength
+      : DEFAULT_HISTORY_LENGTH;
+    pushSample(this.bitrates, level.bitrate, historyLength);
+    pushSample(
+      this.throughputs,
+      (8000 * stats.loaded) / loadTime,
+      historyLength
+    );
+    pushSample(this.downloadTimes, loadTime / 1000, historyLength);
+  }
+
+  /**
+   * Returns the level with the highest score of the actor network (the greedy action, where training
+   * samples the action distribution), or the level of the bandwidth estimate until the model is loaded
+   * @param {AbrRuleContext} context
+   * @return {number} quality
+   */
+  getNextQuality(context: AbrRuleContext) {
+    this.update(context);
+    const { player, config } = this;
+    const { fragCurrent, currentQuality } = context;
+    if (fragCurrent && fragCurrent.type === PlaylistLevelType.AUDIO) {
+      this.decisionInfo = { reason: AbrDecisionReason.UNSUPPORTED_MEDIA };
+      return currentQuality;
+    }
+    const { levels } = player;
+    const model = this.getModel();
+    const bufferLevel = player.getBufferInfo(config.maxBufferHole).len;
+    const nextDuration = getNextDuration(context);
+    const scores = model
+      ? this.getScores(model, {
+          lastBitrate: [levels[currentQuality]?.bitrate || 0],
+          bitrates: padHistory(this.bitrates, model.historyLength),
+          bufferLevel: [bufferLevel],
+          throughputs: padHistory(this.throughputs, model.historyLength),
+          downloadTimes: padHistory(this.downloadTimes, model.historyLength),
+          // playlists do not give part sizes ahead of the request
+          nextPartSizes: levels.map(
+            (level) => (level.bitrate * nextDuration) / 8
+          ),
+          latency: [player.isLive ? player.latency : 0],
+          playbackRate: [player.playbackRate],
+        })
+      : null;
+    if (!scores) {
+      const { bandwidthEstimate } = player;
+      this.decisionInfo = {
+        reason: AbrDecisionReason.NO_MODEL,
+        details: { bandwidthEstimateKbps: bandwidthEstimate / 1000 },
+      };
+      return bandwidthEstimate > 0
+        ? getQualityForBitrate(levels, bandwidthEstimate)
+        : currentQuality;
+    }
+    const quality = scores.indexOf(Math.max(...scores));
+    this.decisionInfo = {
+      reason: AbrDecisionReason.STEADY,
+      scoreType: 'pensieve-policy',
+      candidates: scores.map((score, level) => ({
+        level,
+        bitrate: levels[level].bitrate,
+        score,
+      })),
+      details: {
+        bufferLevel,
+        nextDuration,
+        lastThroughputKbps:
+          (this.throughputs[this.throughputs.length - 1] || 0) / 1000,
+      },
+    };
+    return quality;
+  }
+
+  /**
+   * Runs the model, warning once when its shapes do not fit the features or the levels
+   * @param {PensieveModel} model
+   * @param {PensieveFeatures} features
+   * @return {number[] | null} one score per level, null when the model does not fit
+   */
+  private getScores(
+    model: PensieveModel,
+    features: PensieveFeatures
+  ): number[] | null {
+    try {
+      const scores = runPensieveModel(model, features);
+      if (scores.length !== this.player.levels.length) {
+        throw new Error(
+          `${scores.length} outputs for ${this.player.levels.length} levels`
+        );
+      }
+      if (!scores.every((score) => Number.isFinite(score))) {
+        throw new Error('non-finite output');
+      }
+      return scores;
+    } catch (error) {
+      if (this.rejectedModel !== model) {
+        this.rejectedModel = model;
+        logger.warn(
+          `[PensieveRule] Model does not fit the stream: ${
+            error instanceof Error ? error.message : error
+          }`
+        );
+      }
+      return null;
+    }
+  }
+}
+
+function pushSample(history: number[], value: number, length: number) {
+  history.push(value);
+  while (history.length > length) {
+    history.shift();
+  }
+}
+
+/**
+ * Returns the last samples of a history, zero-filled at the front up to length
+ * @param {number[]} history
+ * @param {number} length
+ * @return {number[]}
+ */
+function padHistory(history: number[], length: number): number[] {
+  const samples = history.slice(-length);
+  while (samples.length < length) {
+    samples.unshift(0);
+  }
+  return samples;
+}
+
+/**
+ * Returns the duration (s) of the next part, or segment without parts
+ * @param {AbrRuleContext} context
+ * @return {number}
+ */
+function getNextDuration(context: AbrRuleContext): number {
+  const { player, fragCurrent, partCurrent } = context;
+  if (!fragCurrent) {
+    return 0;
+  }
+  const details = player.levels[fragCurrent.level]?.details;
+  if (partCurrent) {
+    return details?.partTarget || partCurrent.duration;
+  }
+  return details?.targetduration || fragCurrent.duration;
+}
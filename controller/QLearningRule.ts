@@ -0,0 +1,403 @@
+import { PlaylistLevelType } from '../types/loader';
+import { logger } from '../utils/logger';
+import { AbrDecisionReason } from '../types/abr-rule';
+import QoeReward, { getRewardKey } from './qoe-reward';
+import { createSeededRandom } from '../utils/random';
+import { loadAbrState, saveAbrState } from '../utils/abr-state-storage';
+import type { FragBufferedData, FragLoadedData } from '../types/events';
+import type { PlayerContext } from '../types/player-context';
+import type { AbrHlsConfig } from '../abr-config';
+import type { RandomGenerator } from '../utils/random';
+import type {
+  AbrRule,
+  AbrRuleContext,
+  AbrRuleDecisionInfo,
+} from '../types/abr-rule';
+
+// Tabular Q-learning over a discretized player state, rewarded with the LoL+ QoE of every part
+
+/**
+ * Serializable Q-table, valid for the level ladder and bucket thresholds it was learned with
+ */
+export interface QLearningState {
+  bitrates: number[];
+  bufferThresholds: number[];
+  latencyDeviationThresholds: number[];
+  // number of Q-value updates, drives the epsilon decay
+  updates: number;
+  // Q-values of every level, by state key
+  table: { [state: string]: number[] };
+}
+
+type PendingAction = {
+  state: string;
+  action: number;
+  // s, buffer level when the action was taken
+  bufferLevel: number;
+  // NaN until the part (or segment) of the action is buffered
+  reward: number;
+  // sn and part index of the part (or segment) loaded for the action, empty until loaded
+  key: string;
+};
+
+export default class QLearningRule implements AbrRule {
+  private player: PlayerContext;
+  // set at each boundary by update
+  private config!: AbrHlsConfig;
+  // null until the first decision, or when the ladder or the thresholds change
+  private state: QLearningState | null = null;
+  // last action, bound to its part (or segment) once loaded
+  private pending: PendingAction | null = null;
+  // actions of the loaded parts (or segments) in load order, waiting for their reward
+  private loadedActions: PendingAction[] = [];
+  // rewarded actions waiting for the next state to update their Q-value
+  private rewardedActions: PendingAction[] = [];
+  private qoeReward: QoeReward = new QoeReward();
+  // key the table was last read from, reads of another key are discarded
+  private storageKey: string | null = null;
+  // Q-value updates since the table was last saved
+  private unsavedUpdates: number = 0;
+  private random: RandomGenerator = Math.random;
+  private randomSeed: number | undefined;
+  private decisionInfo: AbrRuleDecisionInfo | null = null;
+
+  constructor(player: PlayerContext) {
+    this.player = player;
+  }
+
+  init(context: AbrRuleContext) {
+    this.update(context);
+  }
+
+  destroy() {
+    if (this.unsavedUpdates) {
+      this.saveState();
+    }
+    this.state = null;
+    this.pending = null;
+    this.loadedActions = [];
+    this.rewardedActions = [];
+    this.qoeReward = new QoeReward();
+    this.storageKey = null;
+    this.unsavedUpdates = 0;
+    this.random = Math.random;
+    this.randomSeed = undefined;
+    this.decisionInfo = null;
+  }
+
+  getDecisionInfo() {
+    return this.decisionInfo;
+  }
+
+  /**
+   * Returns a copy of the Q-table, null before the first decision
+   * @return {QLearningState | null}
+   */
+  exportState(): QLearningState | null {
+    return this.state ? JSON.parse(JSON.stringify(this.state)) : null;
+  }
+
+  /**
+   * Warm starts the policy from a Q-table returned by exportState.
+   * A table learned for another level ladder or other thresholds is discarded at the next decision.
+   * @param {QLearningState} state
+   */
+  importState(state: QLearningState) {
+    if (!isQLearningState(state)) {
+      logger.warn('[QLearningRule] Ignoring invalid Q-table');
+      return;
+    }
+    this.state = JSON.parse(JSON.stringify(state));
+    this.pending = null;
+    this.loadedActions = [];
+    this.rewardedActions = [];
+    logger.log(
+      `[QLearningRule] Q-table imported with ${
+        Object.keys(state.table).length
+      } states`
+    );
+  }
+
+  private update(context: AbrRuleContext) {
+    this.player = context.player;
+    this.config = context.config;
+    const { randomSeed, storage, storageKey } = this.config.abrQLearning;
+    if (!Object.is(randomSeed, this.randomSeed)) {
+      this.randomSeed = randomSeed;
+      this.random = isNaN(randomSeed)
+        ? Math.random
+        : createSeededRandom(randomSeed);
+    }
+    if (storageKey && storageKey !== this.storageKey) {
+      this.storageKey = storageKey;
+      loadAbrState(storage, storageKey)
+        .then((state) => {
+          if (state !== null && storageKey === this.storageKey) {
+            this.importState(state as QLearningState);
+          }
+        })
+        .catch((error) => {
+          logger.warn(
+            `[QLearningRule] Could not read the Q-table "${storageKey}": ${error}`
+          );
+        });
+    }
+  }
+
+  private saveState() {
+    const { state } = this;
+    const { storage, storageKey } = this.config.abrQLearning;
+    this.unsavedUpdates = 0;
+    if (!state || !storageKey) {
+      return;
+    }
+    saveAbrState(storage, storageKey, state).catch((error) => {
+      logger.warn(
+        `[QLearningRule] Could not save the Q-table "${storageKey}": ${error}`
+      );
+    });
+  }
+
+  /**
+   * Binds the last action to the loaded part (or segment)
+   * @param {FragLoadedData} data
+   */
+  onFragLoaded(data: FragLoadedData) {
+    const { frag, part } = data;
+    const { pending } = this;
+    if (frag.type !== PlaylistLevelType.MAIN || !pending) {
+      return;
+    }
+    this.pending = null;
+    pending.key = getRewardKey(frag, part);
+    this.loadedActions.push(pending);
+  }
+
+  onFragBuffered(data: FragBufferedData) {
+    const { frag, part } = data;
+    const { loadedActions, player } = this;
+    if (frag.type !== PlaylistLevelType.MAIN || !player.levels[frag.level]) {
+      return;
+    }
+    const key = getRewardKey(frag, part);
+    const index = loadedActions.findIndex((action) => action.key === key);
+    if (index === -1) {
+      return;
+    }
+    // actions of earlier parts that were never buffered are dropped
+    const pending = loadedActions.splice(0, index + 1)[index];
+    const stats = part ? part.stats : frag.stats;
+    const duration = part ? part.duration : frag.duration;
+    const loadTime = stats.loading.end - stats.loading.start;
+    if (!(loadTime > 0) || !(duration > 0)) {
+      return;
+    }
+    // the Q-value of the level actually loaded is updated, even when it was not the chosen one
+    pending.action = frag.level;
+    pending.reward = this.qoeReward.getReward(
+      player.levels,
+      frag.level,
+      duration,
+      Math.max(0, loadTime / 1000 - pending.bufferLevel),
+      player.isLive ? player.latency : 0,
+      player.playbackRate
+    );
+    this.rewardedActions.push(pending);
+  }
+
+  /**
+   * Updates the Q-values of the rewarded actions with their reward and the value of the new state,
+   * then returns a random level with probability epsilon, the level of the highest Q-value otherwise
+   * @param {AbrRuleContext} context
+   * @return {number} quality
+   */
+  getNextQuality(context: AbrRuleContext) {
+    this.update(context);
+    const { player, config } = this;
+    const { fragCurrent, currentQuality } = context;
+    const {
+      bufferThresholds,
+      latencyDeviationThresholds,
+      learningRate,
+      discountFactor,
+      epsilon,
+      epsilonDecay,
+      minEpsilon,
+      saveInterval,
+    } = config.abrQLearning;
+    if (fragCurrent && fragCurrent.type === PlaylistLevelType.AUDIO) {
+      this.decisionInfo = { reason: AbrDecisionReason.UNSUPPORTED_MEDIA };
+      return currentQuality;
+    }
+    const throughput = player.bandwidthEstimate;
+    if (!(throughput > 0)) {
+      this.decisionInfo = { reason: AbrDecisionReason.NO_ESTIMATE };
+      return currentQuality;
+    }
+    const bitrates = player.levels.map((level) => level.bitrate);
+    const state = this.getState(bitrates);
+
+    // discretized state: buffer, throughput among the levels, latency deviation and last level
+    const bufferLevel = player.getBufferInfo(config.maxBufferHole).len;
+    const latencyDeviation =
+      player.isLive && player.targetLatency !== null
+        ? player.latency - player.targetLatency
+        : 0;
+    const lastQuality = Math.min(
+      Math.max(currentQuality, 0),
+      bitrates.length - 1
+    );
+    const bufferBucket = getBucket(bufferThresholds, bufferLevel);
+    const throughputBucket = getBucket(bitrates, throughput);
+    const latencyBucket = getBucket(
+      latencyDeviationThresholds,
+      latencyDeviation
+    );
+    const stateKey = [
+      bufferBucket,
+      throughputBucket,
+      latencyBucket,
+      lastQuality,
+    ].join(':');
+    const qValues = getQValues(state, stateKey, bitrates.length);
+
+    // Q(s, a) += alpha * (r + gamma * max Q(s', a') - Q(s, a))
+    this.rewardedActions.forEach(({ state: actionState, action, reward }) => {
+      const previousValues = getQValues(state, actionState, bitrates.length);
+      previousValues[action] +=
+        learningRate *
+        (reward +
+          discountFactor * Math.max(...qValues) -
+          previousValues[action]);
+      state.updates++;
+      if (++this.unsavedUpdates >= saveInterval) {
+        this.saveState();
+      }
+    });
+    this.rewardedActions = [];
+
+    const explorationRate = Math.max(
+      minEpsilon,
+      epsilon * Math.pow(epsilonDecay, state.updates)
+    );
+    const explore = this.random() < explorationRate;
+    let quality = lastQuality;
+    if (explore) {
+      quality = Math.floor(this.random() * bitrates.length);
+    } else {
+      // ties keep the last level
+      qValues.forEach((value, level) => {
+        if (value > qValues[quality]) {
+          quality = level;
+        }
+      });
+    }
+    this.pending = {
+      state: stateKey,
+      action: quality,
+      bufferLevel,
+      reward: NaN,
+      key: '',
+    };
+
+    this.decisionInfo = {
+      reason:
+        quality > currentQuality
+          ? AbrDecisionReason.SWITCH_UP
+          : quality < currentQuality
+          ? AbrDecisionReason.SWITCH_DOWN
+          : AbrDecisionReason.HOLD,
+      scoreType: 'q-value',
+      candidates: qValues.map((score, level) => ({
+        level,
+        bitrate: bitrates[level],
+        score,
+      })),
+      details: {
+        bufferBucket,
+        throughputBucket,
+        latencyBucket,
+        epsilon: explorationRate,
+        explored: explore ? 1 : 0,
+        updates: state.updates,
+      },
+    };
+    return quality;
+  }
+
+  /**
+   * Returns the Q-table, starting a new one when the ladder or the bucket thresholds changed
+   * @param {number[]} bitrates
+   * @return {QLearningState}
+   */
+  private getState(bitrates: number[]): QLearningState {
+    const { bufferThresholds, latencyDeviationThresholds } =
+      this.config.abrQLearning;
+    const { state } = this;
+    if (
+      state &&
+      isSameList(state.bitrates, bitrates) &&
+      isSameList(state.bufferThresholds, bufferThresholds) &&
+      isSameList(state.latencyDeviationThresholds, latencyDeviationThresholds)
+    ) {
+      return state;
+    }
+    if (state) {
+      logger.log(
+        '[QLearningRule] Level ladder or thresholds changed, starting a new Q-table'
+      );
+    }
+    this.pending = null;
+    this.loadedActions = [];
+    this.rewardedActions = [];
+    this.qoeReward.resetLastBitrate();
+    return (this.state = {
+      bitrates,
+      bufferThresholds: bufferThresholds.slice(),
+      latencyDeviationThresholds: latencyDeviationThresholds.slice(),
+      updates: 0,
+      table: {},
+    });
+  }
+}
+
+function getQValues(
+  state: QLearningState,
+  key: string,
+  levelCount: number
+): number[] {
+  return (state.table[key] =
+    state.table[key] || new Array(levelCount).fill(0));
+}
+
+// number of thresholds at or below the value
+function getBucket(thresholds: number[], value: number): number {
+  return thresholds.filter((threshold) => threshold <= value).length;
+}
+
+function isSameList(a: number[], b: number[]): boolean {
+  return a.length === b.length && a.every((value, i) => value === b[i]);
+}
+
+function isQLearningState(value: unknown): value is QLearningState {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const state = value as QLearningState;
+  const isNumberList = (list: unknown): list is number[] =>
+    Array.isArray(list) && list.every((item) => typeof item === 'number');
+  return (
+    isNumberList(state.bitrates) &&
+    isNumberList(state.bufferThresholds) &&
+    isNumberList(state.latencyDeviationThresholds) &&
+    Number.isInteger(state.updates) &&
+    state.updates >= 0 &&
+    !!state.table &&
+    typeof state.table === 'object' &&
+    Object.keys(state.table).every(
+      (key) =>
+        isNumberList(state.table[key]) &&
+        state.table[key].length === state.bitrates.length
+    )
+  );
+}
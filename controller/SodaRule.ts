@@ -0,0 +1,211 @@
+import { PlaylistLevelType } from '../types/loader';
+import { AbrDecisionReason } from '../types/abr-rule';
+import type { PlayerContext } from '../types/player-context';
+import type { AbrHlsConfig } from '../abr-config';
+import type {
+  AbrRule,
+  AbrRuleContext,
+  AbrRuleDecisionInfo,
+} from '../types/abr-rule';
+
+// For a description of SODA see Chen et al., SODA: An Adaptive Bitrate Controller for Consistent
+// High-Quality Video Streaming, ACM SIGCOMM 2024
+
+type SodaInput = {
+  // bps, lowest first
+  bitrates: number[];
+  // s, duration of every step of the horizon
+  duration: number;
+  horizon: number;
+  // s
+  bufferLevel: number;
+  targetBuffer: number;
+  // bps
+  throughput: number;
+  lastQuality: number;
+  bufferWeight: number;
+  switchWeight: number;
+};
+
+export default class SodaRule implements AbrRule {
+  private player: PlayerContext;
+  // set at each boundary by update
+  private config!: AbrHlsConfig;
+  private decisionInfo: AbrRuleDecisionInfo | null = null;
+
+  constructor(player: PlayerContext) {
+    this.player = player;
+  }
+
+  init(context: AbrRuleContext) {
+    this.update(context);
+  }
+
+  destroy() {
+    this.decisionInfo = null;
+  }
+
+  getDecisionInfo() {
+    return this.decisionInfo;
+  }
+
+  private update(context: AbrRuleContext) {
+    this.player = context.player;
+    this.config = context.config;
+  }
+
+  /**
+   * Returns the level whose plan has the lowest distortion, buffer deviation and switching cost
+   * over the next parts (or segments)
+   * @param {AbrRuleContext} context
+   * @return {number} quality
+   */
+  getNextQuality(context: AbrRuleContext) {
+    this.update(context);
+    const { player, config } = this;
+    const { fragCurrent, partCurrent, currentQuality } = context;
+    const { horizon, bufferWeight, switchWeight, targetBuffer } =
+      config.abrSoda;
+    if (fragCurrent && fragCurrent.type === PlaylistLevelType.AUDIO) {
+      this.decisionInfo = { reason: AbrDecisionReason.UNSUPPORTED_MEDIA };
+      return currentQuality;
+    }
+    const throughput = player.bandwidthEstimate;
+    if (!(throughput > 0)) {
+      this.decisionInfo = { reason: AbrDecisionReason.NO_ESTIMATE };
+      return currentQuality;
+    }
+    const duration = partCurrent
+      ? partCurrent.duration
+      : fragCurrent
+      ? fragCurrent.duration
+      : 0;
+    if (!(duration > 0)) {
+      this.decisionInfo = { reason: AbrDecisionReason.NO_FRAGMENT };
+      return currentQuality;
+    }
+    const bitrates = player.levels.map((level) => level.bitrate);
+    const bufferLevel = player.getBufferInfo(config.maxBufferHole).len;
+    // the buffer cannot exceed the latency: leave room for the part being loaded
+    const buffer = isNaN(targetBuffer)
+      ? player.targetLatency
+        ? Math.max(duration, player.targetLatency - duration)
+        : config.maxBufferLength
+      : targetBuffer;
+    const lastQuality = Math.min(
+      Math.max(currentQuality, 0),
+      bitrates.length - 1
+    );
+    const costs = solveSoda({
+      bitrates,
+      duration,
+      horizon,
+      bufferLevel,
+      targetBuffer: buffer,
+      throughput,
+      lastQuality,
+      bufferWeight,
+      switchWeight,
+    });
+    const quality = costs.indexOf(Math.min(...costs));
+    this.decisionInfo = {
+      reason:
+        quality > currentQuality
+          ? AbrDecisionReason.SWITCH_UP
+          : quality < currentQuality
+          ? AbrDecisionReason.SWITCH_DOWN
+          : AbrDecisionReason.HOLD,
+      scoreType: 'soda-cost',
+      candidates: costs.map((score, level) => ({
+        level,
+        bitrate: bitrates[level],
+        score,
+      })),
+      details: {
+        throughputKbps: throughput / 1000,
+        bufferLevel,
+        targetBuffer: buffer,
+      },
+    };
+    return quality;
+  }
+}
+
+/**
+ * Returns the cost of the best plan starting with every level. SODA optimal plans are monotone,
+ * and the solver searches the plans that start at a level, switch once at a step of the horizon
+ * and hold the final level: every first level, switch step and final level, in time quadratic in
+ * the ladder size and in the horizon.
+ * Each step costs duration * (distortion + bufferWeight * relative buffer deviation ^ 2), and each
+ * switch, including the one from the last level, adds duration * switchWeight * quality change ^ 2.
+ * The quality of a level is its log bitrate, scaled to [0, 1] over the ladder, and its distortion
+ * 1 - quality.
+ * @param {SodaInput} input
+ * @return {number[]} cost of every level, lowest first
+ */
+function solveSoda(input: SodaInput): number[] {
+  const { bitrates, horizon } = input;
+  const minBitrate = Math.min(...bitrates);
+  const maxBitrate = Math.max(...bitrates);
+  const logRange = Math.log(maxBitrate / minBitrate);
+  const qualities = bitrates.map((bitrate) =>
+    logRange > 0 ? Math.log(bitrate / minBitrate) / logRange : 1
+  );
+  const costs: number[] = [];
+  for (let firstLevel = 0; firstLevel < qualities.length; firstLevel++) {
+    // the first level held over the horizon
+    let cost = getPlanCost(input, qualities, firstLevel, firstLevel, horizon);
+    for (let switchStep = 1; switchStep < horizon; switchStep++) {
+      for (let finalLevel = 0; finalLevel < qualities.length; finalLevel++) {
+        if (finalLevel !== firstLevel) {
+          cost = Math.min(
+            cost,
+            getPlanCost(input, qualities, firstLevel, finalLevel, switchStep)
+          );
+        }
+      }
+    }
+    costs.push(cost);
+  }
+  return costs;
+}
+
+/**
+ * Returns the cost of the plan loading the first level until the switch step, then the final level
+ * @param {SodaInput} input
+ * @param {number[]} qualities
+ * @param {number} firstLevel
+ * @param {number} finalLevel
+ * @param {number} switchStep
+ * @return {number} cost
+ */
+function getPlanCost(
+  input: SodaInput,
+  qualities: number[],
+  firstLevel: number,
+  finalLevel: number,
+  switchStep: number
+): number {
+  const { bitrates, duration, horizon, targetBuffer, throughput } = input;
+  let bufferLevel = input.bufferLevel;
+  let lastQuality = qualities[input.lastQuality];
+  let cost = 0;
+  for (let step = 0; step < horizon; step++) {
+    const level = step < switchStep ? firstLevel : finalLevel;
+    const quality = qualities[level];
+    // a negative buffer is the rebuffering time, which counts as buffer deviation
+    const nextBufferLevel =
+      bufferLevel - (bitrates[level] * duration) / throughput;
+    const deviation =
+      (nextBufferLevel + duration - targetBuffer) / targetBuffer;
+    cost +=
+      duration *
+      (1 -
+        quality +
+        input.bufferWeight * deviation * deviation +
+        input.switchWeight * Math.pow(quality - lastQuality, 2));
+    bufferLevel = Math.max(0, nextBufferLevel) + duration;
+    lastQuality = quality;
+  }
+  return cost;
+}
@@ -1,33 +1,48 @@
-import Hls, { Fragment, Part } from '../hls';
 import { PlaylistLevelType } from '../types/loader';
-import { BufferHelper } from '../utils/buffer-helper';
-
-export default class StallionRule {
-  private hls: Hls;
-  private fragCurrent: Fragment;
-  private partCurrent: Part;
-  private currentQuality: number;
+import type { Fragment, Part } from '../loader/fragment';
+import type { PlayerContext } from '../types/player-context';
+import { AbrDecisionReason } from '../types/abr-rule';
+import type {
+  AbrRule,
+  AbrRuleContext,
+  AbrRuleDecisionInfo,
+} from '../types/abr-rule';
+
+export default class StallionRule implements AbrRule {
+  private player: PlayerContext;
+  private fragCurrent: Fragment | null = null;
+  private partCurrent: Part | null = null;
+  private currentQuality: number = 0;
   private throughputArr: number[];
   private latencyArr: number[];
-  private readonly THROUGHPUT_SAFETY_FACTOR = 1;
-  private readonly LATENCY_SAFETY_FACTOR = 1.25;
-  private readonly THROUGHPUT_SAMPLE_AMOUNT = 3;
-  private readonly LATENCY_SAMPLE_AMOUNT = 4;
-
-  constructor(config) {
-    this.hls = config.hls;
-    this.fragCurrent = config.fragCurrent;
-    this.partCurrent = config.partCurrent;
-    this.currentQuality = config.currentQuality;
+  private decisionInfo: AbrRuleDecisionInfo | null = null;
+
+  constructor(player: PlayerContext) {
+    this.player = player;
     this.throughputArr = [];
     this.latencyArr = [];
   }
 
-  update(config) {
-    this.hls = config.hls;
-    this.fragCurrent = config.fragCurrent;
-    this.partCurrent = config.partCurrent;
-    this.currentQuality = config.currentQuality;
+  init(context: AbrRuleContext) {
+    this.update(context);
+  }
+
+  destroy() {
+    this.throughputArr = [];
+    this.latencyArr = [];
+    this.fragCurrent = this.partCurrent = null;
+    this.decisionInfo = null;
+  }
+
+  getDecisionInfo() {
+    return this.decisionInfo;
+  }
+
+  private update(context: AbrRuleContext) {
+    this.player = context.player;
+    this.fragCurrent = context.fragCurrent;
+    this.partCurrent = context.partCurrent;
+    this.currentQuality = context.currentQuality;
   }
 
   private getMean(array) {
@@ -48,11 +63,11 @@ export default class StallionRule {
    * @memberof AbrController#
    */
   getQualityForBitrate(bitrate, latency) {
-    const { hls, fragCurrent } = this;
+    const { player, fragCurrent } = this;
 
     if (latency && fragCurrent) {
       const fragmentDuration = fragCurrent.duration;
-      const targetLatency = hls.targetLatency ? hls.targetLatency : 0;
+      const targetLatency = player.targetLatency ? player.targetLatency : 0;
       const deltaLatency = Math.abs(latency - targetLatency);
       if (deltaLatency >= fragmentDuration) {
         return 0;
@@ -62,7 +77,7 @@ export default class StallionRule {
       }
     }
 
-    const bitrateList = hls.levels.map((b) => b.bitrate);
+    const bitrateList = player.levels.map((b) => b.bitrate);
 
     for (let i = bitrateList.length - 1; i >= 0; i--) {
       if (bitrate * 1000 >= bitrateList[i]) {
@@ -72,58 +87,78 @@ export default class StallionRule {
     return 0;
   }
 
-  getMaxIndex() {
-    const { hls, fragCurrent, currentQuality } = this;
-    const { media, config } = hls;
+  getNextQuality(context: AbrRuleContext) {
+    this.update(context);
+    const { player, fragCurrent, currentQuality } = this;
+    const { config } = context;
+    const {
+      throughputSafetyFactor,
+      latencySafetyFactor,
+      throughputSampleAmount,
+      latencySampleAmount,
+    } = config.abrStallion;
     const mediaType = fragCurrent ? fragCurrent.type : PlaylistLevelType.MAIN;
-    const pos = media ? media.currentTime : 0;
-    const bufferStateVO = BufferHelper.bufferInfo(
-      media,
-      pos,
-      config.maxBufferHole
-    );
+    const bufferStateVO = player.getBufferInfo(config.maxBufferHole);
     let quality = currentQuality;
 
-    if (mediaType === PlaylistLevelType.AUDIO) return currentQuality;
+    if (mediaType === PlaylistLevelType.AUDIO) {
+      this.decisionInfo = { reason: AbrDecisionReason.UNSUPPORTED_MEDIA };
+      return currentQuality;
+    }
 
-    const HLSThroughput = !isNaN(hls.bandwidthEstimate)
-      ? hls.bandwidthEstimate / 1000.0
+    const HLSThroughput = !isNaN(player.bandwidthEstimate)
+      ? player.bandwidthEstimate / 1000.0
       : config.abrEwmaDefaultEstimate / 1000.0;
     this.throughputArr.push(HLSThroughput);
-    this.latencyArr.push(hls.latency);
+    this.latencyArr.push(player.latency);
 
-    if (this.throughputArr.length > this.THROUGHPUT_SAMPLE_AMOUNT)
+    while (this.throughputArr.length > throughputSampleAmount)
       this.throughputArr.shift();
-    if (this.latencyArr.length > this.LATENCY_SAMPLE_AMOUNT)
+    while (this.latencyArr.length > latencySampleAmount)
       this.latencyArr.shift();
 
     const throughput = this.getMean(this.throughputArr);
     const throughput_std = this.getStandardDeviation(this.throughputArr);
     //calculate bitrate using throughput minus a factor of its standard deviation
-    const bitrate = throughput - this.THROUGHPUT_SAFETY_FACTOR * throughput_std;
+    const bitrate = throughput - throughputSafetyFactor * throughput_std;
 
     const latency = this.getMean(this.latencyArr);
     const std_latency = this.getStandardDeviation(this.latencyArr);
     //calculate latency estimate using latency plus a factor of of its standard deviation
-    const lat = latency + this.LATENCY_SAFETY_FACTOR * std_latency;
+    const lat = latency + latencySafetyFactor * std_latency;
 
-    if (!hls.isLive) {
+    if (!player.isLive) {
       this.throughputArr.pop();
       this.latencyArr.pop();
     }
 
     if (isNaN(throughput) || !bufferStateVO) {
+      this.decisionInfo = { reason: AbrDecisionReason.NO_ESTIMATE };
       return quality;
     }
 
-    const targetLatency = hls.targetLatency ? hls.targetLatency : 0;
+    const targetLatency = player.targetLatency ? player.targetLatency : 0;
     const deltaLatency = Math.abs(lat - targetLatency);
-    if (
-      fragCurrent != null &&
-      deltaLatency < fragCurrent.duration &&
-      bufferStateVO.len > 0
-    )
+    let reason = AbrDecisionReason.THROUGHPUT;
+    if (fragCurrent == null) {
+      reason = AbrDecisionReason.NO_FRAGMENT;
+    } else if (deltaLatency >= fragCurrent.duration) {
+      reason = AbrDecisionReason.LATENCY_DEAD_TIME;
+    } else if (bufferStateVO.len <= 0) {
+      reason = AbrDecisionReason.HOLD;
+    } else {
       quality = this.getQualityForBitrate(bitrate, lat);
+    }
+    this.decisionInfo = {
+      reason,
+      details: {
+        meanThroughputKbps: throughput,
+        throughputStdKbps: throughput_std,
+        adjustedBitrateKbps: bitrate,
+        latencyEstimate: lat,
+        deltaLatency,
+      },
+    };
     return quality;
   }
 }
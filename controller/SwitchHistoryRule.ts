@@ -0,0 +1,82 @@
+import { logger } from '../utils/logger';
+import { ABR_NO_CHANGE, AbrSwitchPriority } from '../types/abr-rule';
+import type { AbrSwitchRequest, AbrSwitchRule } from '../types/abr-rule';
+
+// Port of the dash.js SwitchHistoryRule and SwitchRequestHistory
+// ratio of drops to no drops from a level above which the level is avoided
+const MAX_SWITCH = 0.075;
+const SAMPLE_SIZE = 6;
+
+interface SwitchHistoryEntry {
+  noDrops: number;
+  drops: number;
+  dropSize: number;
+}
+
+export default class SwitchHistoryRule implements AbrSwitchRule {
+  // decisions taken while at each level, indexed by level
+  private history: SwitchHistoryEntry[] = [];
+
+  onDecision(previousQuality: number, quality: number) {
+    if (previousQuality < 0) {
+      return;
+    }
+    if (quality === ABR_NO_CHANGE) {
+      quality = previousQuality;
+    }
+    let entry = this.history[previousQuality];
+    if (!entry) {
+      entry = this.history[previousQuality] = {
+        noDrops: 0,
+        drops: 0,
+        dropSize: 0,
+      };
+    }
+    const indexDiff = quality - previousQuality;
+    if (indexDiff < 0) {
+      entry.drops++;
+      entry.dropSize -= indexDiff;
+    } else {
+      entry.noDrops++;
+    }
+  }
+
+  /**
+   * Caps the level below the lowest level that was too often left for a lower one
+   * @return {AbrSwitchRequest}
+   */
+  getSwitchRequest(): AbrSwitchRequest {
+    const switchRequest: AbrSwitchRequest = {
+      quality: ABR_NO_CHANGE,
+      priority: AbrSwitchPriority.DEFAULT,
+    };
+    let drops = 0;
+    let noDrops = 0;
+    let dropSize = 0;
+    const { history } = this;
+    for (let i = 0; i < history.length; i++) {
+      const entry = history[i];
+      if (entry === undefined) {
+        continue;
+      }
+      drops += entry.drops;
+      noDrops += entry.noDrops;
+      dropSize += entry.dropSize;
+      if (drops + noDrops >= SAMPLE_SIZE && drops / noDrops > MAX_SWITCH) {
+        switchRequest.quality = i > 0 && entry.drops > 0 ? i - 1 : i;
+        switchRequest.reason = `drops: ${drops} noDrops: ${noDrops} dropSize: ${dropSize}`;
+        logger.log(
+          `[SwitchHistoryRule] index: ${switchRequest.quality} samples: ${
+            drops + noDrops
+          } drops: ${drops}`
+        );
+        break;
+      }
+    }
+    return switchRequest;
+  }
+
+  destroy() {
+    this.history = [];
+  }
+}
@@ -15,17 +15,51 @@ import type {
   FragBufferedData,
   ErrorData,
   LevelLoadedData,
+  LevelSwitchingData,
 } from '../types/events';
 import type { ComponentAPI } from '../types/component-api';
-import LoLpWeightSelector from './LoLpWeightSelector';
-import LoLpQoeEvaluator from './LoLpQoeEvaluator';
-import LearningAbrController from './LoLpRule';
-import L2ARule, { l2AParametersDict, l2AStateDict } from './L2ARule';
-import LlamaABR from './LlamaRule';
-import StallionRule from './StallionRule';
+import type { PlayerContext } from '../types/player-context';
+import { AbrDecisionReason } from '../types/abr-rule';
+import type {
+  AbrRule,
+  AbrRuleContext,
+  AbrRuleDecisionInfo,
+  AbrRuleSwitchOptions,
+  AbrShadowDecision,
+  AbrShadowStats,
+} from '../types/abr-rule';
+import { AbrEvents, triggerAbrEvent } from '../abr-events';
+import { mergeAbrConfig, updateAbrConfig } from '../abr-config';
+import type {
+  AbrQoeData,
+  AbrQoeSessionSummary,
+  NetworkRegime,
+} from '../types/abr-events';
+import type {
+  AbrConfigUpdate,
+  AbrHlsConfig,
+  AbrMetaConfig,
+  LoLpWeightSelectionMode,
+} from '../abr-config';
+import LoLpQoeSession from './LoLpQoeSession';
+import AbrRuleRegistry, { defaultSwitchRules } from './abr-rule-registry';
+import AbrRulesCollection from './abr-rules-collection';
+import AbrShadowEvaluator from './abr-shadow-evaluator';
+import HlsPlayerContext from './hls-player-context';
+import NetworkRegimeClassifier from './network-regime-classifier';
+
+// abrMeta option holding the rule of each network regime
+const regimeRuleKeys: Record<NetworkRegime, keyof AbrMetaConfig> = {
+  stable: 'stableRule',
+  volatile: 'volatileRule',
+  degrading: 'degradingRule',
+  recovering: 'recoveringRule',
+};
 
 class AbrController implements ComponentAPI {
   protected hls: Hls;
+  // what the rules see of the player, also the controller's clock and timers
+  private readonly player: PlayerContext;
   private lastLoadedFragLevel: number = 0;
   private _nextAutoLevel: number = -1;
   private timer?: number;
@@ -34,67 +68,105 @@ class AbrController implements ComponentAPI {
   private partCurrent: Part | null = null;
   private bitrateTestDelay: number = 0;
 
-  public readonly bwEstimator: EwmaBandWidthEstimator;
+  public bwEstimator: EwmaBandWidthEstimator;
 
-  static readonly WEIGHT_SELECTION_MODES = {
+  // values of the abrLoLp.weightSelectionMode config option
+  static readonly WEIGHT_SELECTION_MODES: Record<
+    'MANUAL' | 'RANDOM' | 'DYNAMIC',
+    LoLpWeightSelectionMode
+  > = {
     MANUAL: 'manual_weight_selection',
     RANDOM: 'random_weight_selection',
     DYNAMIC: 'dynamic_weight_selection',
   };
 
-  private readonly useLoLpPlayback: boolean = true;
-  private readonly liveCatchupPlaybackRate: number = 0.3;
-  private readonly liveCatchUpMinDrift: number = 0.05;
-  private readonly playbackBufferMin: number = 0.5;
-  private readonly targetLatency: number = 1.5;
-  private readonly liveCatchupLatencyThreshold: number = 60;
-
-  private l2aRule: L2ARule | null = null;
-  private l2AStateDict: l2AStateDict = {};
-  private l2AParameterDict: l2AParametersDict = {};
-
-  private llama: LlamaABR | null = null;
-  private stallionRule: StallionRule | null = null;
-
-  private lolpQoE: number | null = null;
+  private readonly abrConfig: AbrHlsConfig;
+
+  public readonly abrRules: AbrRuleRegistry;
+  private abrRuleInstance: AbrRule | null = null;
+  // learned state imported before the rule instance exists, applied when it is created
+  private pendingAbrRuleState: { abrRule: string; state: unknown } | null =
+    null;
+  private decisionInfo: AbrRuleDecisionInfo | null = null;
+  // inactive rules evaluated on the same inputs, see abrShadowRules
+  private readonly shadow: AbrShadowEvaluator;
+  // secondary rules combined with the active rule, see abrSecondaryRules
+  private readonly rulesCollection: AbrRulesCollection;
+  // meta-ABR: picks the active rule from the network regime, see abrMeta
+  private readonly regimeClassifier: NetworkRegimeClassifier =
+    new NetworkRegimeClassifier();
+
+  private lolpQoE: AbrQoeData | null = null;
+  private qoeSession: LoLpQoeSession = new LoLpQoeSession();
   private ABRRule: string = 'LoLp';
-  private lastABRRule: string = 'LoLp';
   private boxThroughputOn: boolean = true;
 
-  constructor(hls: Hls) {
+  /**
+   * @param {Hls} hls
+   * @param {PlayerContext} player - what the rules see of the player and the clock of the
+   * controller, read from hls by default
+   */
+  constructor(hls: Hls, player: PlayerContext = new HlsPlayerContext(hls)) {
     this.hls = hls;
+    this.player = player;
 
-    const config = hls.config;
+    const config = (this.abrConfig = mergeAbrConfig(hls.config));
     this.bwEstimator = new EwmaBandWidthEstimator(
       config.abrEwmaSlowVoD,
       config.abrEwmaFastVoD,
       config.abrEwmaDefaultEstimate
     );
+    this.abrRules = new AbrRuleRegistry(config.abrRules);
+    this.ABRRule = config.abrRule;
+    this.shadow = new AbrShadowEvaluator(
+      this.abrRules,
+      this.player,
+      config.abrShadowTraceLength
+    );
+    this.shadow.setRules(config.abrShadowRules, this.ABRRule);
+    this.rulesCollection = new AbrRulesCollection(
+      this.player,
+      Object.assign({}, defaultSwitchRules, config.abrSwitchRules),
+      config.abrSecondaryRules
+    );
+    this.createAbrRule();
 
     this.registerListeners();
   }
 
   protected registerListeners() {
     const { hls } = this;
+    hls.on(Events.MANIFEST_LOADING, this.onManifestLoading, this);
     hls.on(Events.FRAG_LOADING, this.onFragLoading, this);
     hls.on(Events.FRAG_LOADED, this.onFragLoaded, this);
     hls.on(Events.FRAG_BUFFERED, this.onFragBuffered, this);
     hls.on(Events.LEVEL_LOADED, this.onLevelLoaded, this);
+    hls.on(Events.LEVEL_SWITCHING, this.onLevelSwitching, this);
     hls.on(Events.ERROR, this.onError, this);
   }
 
   protected unregisterListeners() {
     const { hls } = this;
+    hls.off(Events.MANIFEST_LOADING, this.onManifestLoading, this);
     hls.off(Events.FRAG_LOADING, this.onFragLoading, this);
     hls.off(Events.FRAG_LOADED, this.onFragLoaded, this);
     hls.off(Events.FRAG_BUFFERED, this.onFragBuffered, this);
     hls.off(Events.LEVEL_LOADED, this.onLevelLoaded, this);
+    hls.off(Events.LEVEL_SWITCHING, this.onLevelSwitching, this);
     hls.off(Events.ERROR, this.onError, this);
   }
 
   public destroy() {
     this.unregisterListeners();
     this.clearTimer();
+    this.destroyAbrRule();
+    this.shadow.destroy();
+    this.rulesCollection.destroy();
+    this.endQoeSession();
+  }
+
+  protected onManifestLoading() {
+    this.endQoeSession();
   }
 
   protected onFragLoading(event: Events.FRAG_LOADING, data: FragLoadingData) {
@@ -103,11 +175,21 @@ class AbrController implements ComponentAPI {
       if (!this.timer) {
         this.fragCurrent = frag;
         this.partCurrent = data.part ?? null;
-        this.timer = self.setInterval(this.onCheck, 100);
+        this.timer = this.player.setInterval(() => this.onCheck(), 100);
       }
     }
   }
 
+  private resetEstimator() {
+    const config = this.hls.config;
+    const live = !!this.hls.levels[this.lastLoadedFragLevel]?.details?.live;
+    this.bwEstimator = new EwmaBandWidthEstimator(
+      live ? config.abrEwmaSlowLive : config.abrEwmaSlowVoD,
+      live ? config.abrEwmaFastLive : config.abrEwmaFastVoD,
+      config.abrEwmaDefaultEstimate
+    );
+  }
+
   protected onLevelLoaded(event: Events.LEVEL_LOADED, data: LevelLoadedData) {
     const config = this.hls.config;
     if (data.details.live) {
@@ -117,6 +199,15 @@ class AbrController implements ComponentAPI {
     }
   }
 
+  protected onLevelSwitching(
+    event: Events.LEVEL_SWITCHING,
+    data: LevelSwitchingData
+  ) {
+    this.abrRuleInstance?.onLevelSwitching?.(data.level);
+    this.shadow.onLevelSwitching(data.level);
+    this.rulesCollection.onLevelSwitching(data.level);
+  }
+
   /*
       This method monitors the download rate of the current fragment, and will downswitch if that fragment will not load
       quickly enough to prevent underbuffering
@@ -149,7 +240,23 @@ class AbrController implements ComponentAPI {
       return;
     }
 
-    const requestDelay = performance.now() - stats.loading.start;
+    const requestDelay = this.player.now() - stats.loading.start;
+    if (this.rulesCollection.active) {
+      const abandon = this.rulesCollection.shouldAbandon(
+        this.getRuleContext(),
+        this.abrConfig.abrRuleCombinator
+      );
+      if (abandon && abandon.quality < frag.level) {
+        logger.warn(
+          `[abr-controller] ${abandon.secondaryRule} abandons fragment ${frag.sn} of level ${frag.level}, switching to level ${abandon.quality}`
+        );
+        this.abortFragment(
+          Math.max(abandon.quality, hls.minAutoLevel),
+          requestDelay
+        );
+        return;
+      }
+    }
     const playbackRate = Math.abs(media.playbackRate);
     // In order to work with a stable bandwidth, only begin monitoring bandwidth after half of the fragment has been loaded
     if (requestDelay <= (500 * duration) / playbackRate) {
@@ -223,6 +330,20 @@ class AbrController implements ComponentAPI {
         3
       )} s
       Time to underbuffer: ${bufferStarvationDelay.toFixed(3)} s`);
+    this.abortFragment(nextLoadLevel, requestDelay);
+  }
+
+  /**
+   * Abort the loading fragment and load the next one at the given level
+   * @param {number} nextLoadLevel
+   * @param {number} requestDelay - ms since the request
+   */
+  private abortFragment(nextLoadLevel: number, requestDelay: number) {
+    const { fragCurrent: frag, partCurrent: part, hls } = this;
+    if (!frag) {
+      return;
+    }
+    const stats: LoaderStats = part ? part.stats : frag.stats;
     hls.nextLoadLevel = nextLoadLevel;
     this.bwEstimator.sample(requestDelay, stats.loaded);
     this.clearTimer();
@@ -233,10 +354,8 @@ class AbrController implements ComponentAPI {
     hls.trigger(Events.FRAG_LOAD_EMERGENCY_ABORTED, { frag, part, stats });
   }
 
-  protected onFragLoaded(
-    event: Events.FRAG_LOADED,
-    { frag, part }: FragLoadedData
-  ) {
+  protected onFragLoaded(event: Events.FRAG_LOADED, data: FragLoadedData) {
+    const { frag, part } = data;
     if (
       frag.type === PlaylistLevelType.MAIN &&
       Number.isFinite(frag.sn as number)
@@ -245,6 +364,8 @@ class AbrController implements ComponentAPI {
       const duration = part ? part.duration : frag.duration;
       // stop monitoring bw once frag loaded
       this.clearTimer();
+      // one switch decision per loaded part (or segment), from the level of the previous one
+      this.rulesCollection.onDecision(this.lastLoadedFragLevel, frag.level);
       // store level id after successful fragment load
       this.lastLoadedFragLevel = frag.level;
       // reset forced auto level value so that next level will be selected
@@ -270,6 +391,9 @@ class AbrController implements ComponentAPI {
         this.onFragBuffered(Events.FRAG_BUFFERED, fragBufferedData);
         frag.bitrateTest = false;
       }
+      this.abrRuleInstance?.onFragLoaded?.(data);
+      this.shadow.onFragLoaded(data);
+      this.rulesCollection.onFragLoaded(data);
     }
   }
 
@@ -292,7 +416,14 @@ class AbrController implements ComponentAPI {
     // is used. If we used buffering in that case, our BW estimate sample will be very large.
     const processingMs = stats.parsing.end - stats.loading.start;
     const fragProcessingMs = frag.stats.loading.end - frag.stats.loading.start;
-    if (this.boxThroughputOn) {
+    if (part) {
+      // blocking preload hints hold a part request until the part is published: the part is measured
+      // from its first byte, the chunks of the segment would span the holds between parts
+      this.bwEstimator.sample(
+        stats.loading.end - (stats.loading.first || stats.loading.start),
+        stats.loaded
+      );
+    } else if (this.boxThroughputOn) {
       // Filter the first and last chunks in a segment in both arrays [StartTimeData and EndTimeData]
       const _startTD = frag.stats.startTimeData;
       const _endTD = frag.stats.endTimeData;
@@ -322,6 +453,42 @@ class AbrController implements ComponentAPI {
     } else {
       this.bitrateTestDelay = 0;
     }
+    this.abrRuleInstance?.onFragBuffered?.(data);
+    this.shadow.onFragBuffered(data);
+    this.rulesCollection.onFragBuffered(data);
+    this.updateNetworkRegime();
+  }
+
+  /**
+   * Classify the network regime from the new bandwidth estimate and, when abrMeta is enabled,
+   * switch to the rule configured for a newly confirmed regime
+   */
+  private updateNetworkRegime() {
+    const { abrMeta } = this.abrConfig;
+    if (!abrMeta.enabled) {
+      return;
+    }
+    const { player } = this;
+    const change = this.regimeClassifier.addSample(
+      this.bwEstimator.getEstimate(),
+      player.isLive ? player.latency : 0,
+      player.targetLatency,
+      player.now() / 1000,
+      abrMeta
+    );
+    if (!change) {
+      return;
+    }
+    const abrRule = abrMeta[regimeRuleKeys[change.regime]] as string;
+    logger.log(
+      `[abr-controller] Network regime ${change.previousRegime} -> ${change.regime}, using ${abrRule}`
+    );
+    triggerAbrEvent(
+      this.hls,
+      AbrEvents.NETWORK_REGIME_CHANGED,
+      Object.assign(change, { abrRule })
+    );
+    this.setAbrRule(abrRule);
   }
 
   protected onError(event: Events.ERROR, data: ErrorData) {
@@ -331,13 +498,19 @@ class AbrController implements ComponentAPI {
       case ErrorDetails.FRAG_LOAD_TIMEOUT:
         this.clearTimer();
         break;
+      case ErrorDetails.BUFFER_STALLED_ERROR:
+        this.abrRuleInstance?.onBufferStalled?.();
+        this.shadow.onBufferStalled();
+        this.rulesCollection.onBufferStalled();
+        this.regimeClassifier.onStall();
+        break;
       default:
         break;
     }
   }
 
   clearTimer() {
-    self.clearInterval(this.timer);
+    this.player.clearInterval(this.timer);
     this.timer = undefined;
   }
 
@@ -350,49 +523,88 @@ class AbrController implements ComponentAPI {
       forcedAutoLevel !== -1 &&
       (!bwEstimator || !bwEstimator.canEstimate())
     ) {
+      this.triggerDecision(forcedAutoLevel, {
+        reason: AbrDecisionReason.FORCED_LEVEL,
+      });
       return forcedAutoLevel;
     }
 
     // compute next level using ABR logic
-    switch (this.lastABRRule) {
-      case 'L2ARule':
-        if (this.ABRRule !== 'L2ARule') {
-          this.l2aRule?.unregisterListeners();
-          this.l2aRule = null;
-        }
-        break;
-      case 'Llama':
-        if (this.ABRRule !== 'Llama') this.llama = null;
-        break;
-      case 'StallionRule':
-        if (this.ABRRule !== 'StallionRule') this.stallionRule = null;
-        break;
-    }
     let nextABRAutoLevel = 0;
-    switch (this.ABRRule) {
-      case 'LoLp':
-        nextABRAutoLevel = this._lolpLearningAbr();
-        break;
-      case 'L2ARule':
-        nextABRAutoLevel = this._L2AAbr();
-        break;
-      case 'Llama':
-        nextABRAutoLevel = this._LlamaAbr();
-        break;
-      case 'StallionRule':
-        nextABRAutoLevel = this._StallionAbr();
-        break;
-      default:
-        nextABRAutoLevel = this.getNextABRAutoLevel();
+    this.decisionInfo = null;
+    if (this.abrRules.has(this.ABRRule)) {
+      nextABRAutoLevel = this._ruleAbr();
+    } else {
+      nextABRAutoLevel = this.getNextABRAutoLevel();
+    }
+    let decisionInfo = this.decisionInfo;
+    if (this.rulesCollection.active) {
+      const result = this.rulesCollection.getMaxQuality(
+        this.getRuleContext(),
+        nextABRAutoLevel,
+        this.abrConfig.abrRuleCombinator
+      );
+      if (result.secondaryRule) {
+        decisionInfo = Object.assign({}, decisionInfo, {
+          reason: AbrDecisionReason.SECONDARY_RULE,
+          secondaryRule: result.secondaryRule,
+        });
+      }
+      nextABRAutoLevel = result.quality;
     }
     // if forced auto level has been defined, use it to cap ABR computed quality level
     if (forcedAutoLevel !== -1) {
+      if (forcedAutoLevel < nextABRAutoLevel) {
+        decisionInfo = Object.assign({}, decisionInfo, {
+          reason: AbrDecisionReason.FORCED_CAP,
+        });
+      }
       nextABRAutoLevel = Math.min(forcedAutoLevel, nextABRAutoLevel);
     }
+    this.triggerDecision(nextABRAutoLevel, decisionInfo);
+    if (this.shadow.active) {
+      this.shadow.evaluate(
+        this.getRuleContext(),
+        this.ABRRule,
+        nextABRAutoLevel
+      );
+    }
 
     return nextABRAutoLevel;
   }
 
+  /**
+   * Emit the inputs and the explanation of a next auto level evaluation
+   * @param {number} level
+   * @param {AbrRuleDecisionInfo | null} decisionInfo
+   */
+  private triggerDecision(
+    level: number,
+    decisionInfo: AbrRuleDecisionInfo | null
+  ) {
+    const { hls, player } = this;
+    const bufferLevel = player.hasMedia
+      ? player.getBufferInfo(this.abrConfig.maxBufferHole).len
+      : 0;
+    triggerAbrEvent(hls, AbrEvents.ABR_DECISION, {
+      abrRule: this.ABRRule,
+      level,
+      previousLevel: this.lastLoadedFragLevel,
+      reason: decisionInfo
+        ? decisionInfo.reason
+        : AbrDecisionReason.UNSPECIFIED,
+      throughput: this.bwEstimator.getEstimate(),
+      bufferLevel,
+      latency: player.latency,
+      targetLatency: player.targetLatency,
+      playbackRate: player.playbackRate,
+      scoreType: decisionInfo?.scoreType,
+      candidates: decisionInfo?.candidates || [],
+      details: decisionInfo?.details,
+      secondaryRule: decisionInfo?.secondaryRule,
+    });
+  }
+
   private getNextABRAutoLevel() {
     const { fragCurrent, partCurrent, hls } = this;
     const { maxAutoLevel, config, minAutoLevel, media } = hls;
@@ -429,6 +641,10 @@ class AbrController implements ComponentAPI {
       config.abrBandWidthUpFactor
     );
     if (bestLevel >= 0) {
+      this.decisionInfo = {
+        reason: AbrDecisionReason.THROUGHPUT,
+        details: { bufferStarvationDelay },
+      };
       return bestLevel;
     }
     logger.trace(
@@ -476,6 +692,10 @@ class AbrController implements ComponentAPI {
       bwFactor,
       bwUpFactor
     );
+    this.decisionInfo = {
+      reason: AbrDecisionReason.REBUFFER_EXPECTED,
+      details: { bufferStarvationDelay, maxStarvationDelay },
+    };
     return Math.max(bestLevel, 0);
   }
 
@@ -562,142 +782,154 @@ class AbrController implements ComponentAPI {
   }
 
   /**
-   * Use LoL+ for bitrate selection
-   * @returns {number} quality
+   * Validate and apply new values to the low-latency ABR config sections.
+   * Rules and playback speed control pick them up at the next decision.
+   * @param {AbrConfigUpdate} update
    */
-  private _lolpLearningAbr() {
-    const DWS_TARGET_LATENCY = 1.5;
-    const DWS_BUFFER_MIN = 0.3;
+  public updateAbrConfig(update: AbrConfigUpdate) {
+    updateAbrConfig(this.abrConfig, update);
+    if (!this.abrConfig.abrMeta.enabled) {
+      this.regimeClassifier.reset();
+    }
+  }
 
-    const {
-      fragCurrent,
-      partCurrent,
-      lastLoadedFragLevel: currentLevel,
-      hls,
-    } = this;
-    const { config, media } = hls;
-    const pos = media ? media.currentTime : 0;
+  /**
+   * LoL+ QoE of the last loaded segment with its weighted sums and weights
+   */
+  get abrQoE(): AbrQoeData | null {
+    return this.lolpQoE;
+  }
 
-    const learningController: LearningAbrController = new LearningAbrController(),
-      qoeEvaluator: LoLpQoeEvaluator = new LoLpQoeEvaluator();
+  /**
+   * Session QoE metrics accumulated since the source was loaded
+   */
+  get qoeSummary(): AbrQoeSessionSummary {
+    return this.qoeSession.getSummary();
+  }
 
-    const currentQuality = currentLevel;
-    // let mediaType: string = PlaylistLevelType.MAIN;
-    const mediaType = hls.levels[currentLevel]?.details
-      ? hls.levels[currentLevel]?.details?.type
-        ? hls.levels[currentLevel]?.details?.type
-        : 'VOD'
-      : 'VOD';
+  /**
+   * Name of the active ABR rule
+   */
+  get abrRule(): string {
+    return this.ABRRule;
+  }
 
-    const bufferStateVO = BufferHelper.bufferInfo(
-      media,
-      pos,
-      config.maxBufferHole
-    );
-    // const scheduleController = rulesContext.getScheduleController();
-    const currentBufferLevel = parseFloat(bufferStateVO.len.toFixed(2));
-    let latency = hls.latency;
+  set abrRule(name: string) {
+    this.setAbrRule(name);
+  }
 
-    // if (!rulesContext.useLoLPABR() || (mediaType === PlaylistLevelType.AUDIO)) {
-    if (mediaType != 'VOD') {
-      return currentQuality;
-    }
-    if (!fragCurrent || !media) {
-      return currentQuality;
-    }
+  /**
+   * Network regime confirmed by the meta-ABR, null until classified or when abrMeta is disabled
+   */
+  get networkRegime(): NetworkRegime | null {
+    return this.regimeClassifier.currentRegime;
+  }
 
-    if (!latency) {
-      latency = 0;
-    }
+  /**
+   * Decisions the shadow rules would have taken, per rule name and oldest first
+   */
+  get shadowDecisions(): Record<string, AbrShadowDecision[]> {
+    return this.shadow.getDecisions();
+  }
 
-    const playbackRate =
-      media && media.playbackRate !== 0 ? Math.abs(media.playbackRate) : 1.0;
-    const throughput = this.bwEstimator
-      ? hls.bandwidthEstimate / 1000.0
-      : config.abrEwmaDefaultEstimate / 1000.0;
-    logger.debug(`Throughput ${Math.round(throughput)} kbps`);
+  /**
+   * Agreement of each shadow rule with the active rule since the last reset
+   */
+  get shadowStats(): Record<string, AbrShadowStats> {
+    return this.shadow.getStats();
+  }
 
-    if (isNaN(throughput) || !bufferStateVO) {
-      return currentQuality;
-    }
+  /**
+   * Replace the rules evaluated in shadow mode. Rules kept in the list keep their state and records.
+   * @param {string[]} names
+   */
+  public setShadowRules(names: string[]) {
+    this.abrConfig.abrShadowRules = names.slice();
+    this.shadow.setRules(names, this.ABRRule);
+  }
 
-    // if (abrController.getAbandonmentStateFor(mediaType) === MetricsConstants.ABANDON_LOAD) {
-    //     return switchRequest;
-    // }
+  /**
+   * Drop the recorded shadow decisions and statistics
+   */
+  public resetShadowStats() {
+    this.shadow.reset();
+  }
 
-    // QoE parameters
-    const bitrateList = hls.levels; // [{bandwidth: 200000, width: 640, height: 360}, ...]
-    const segmentDuration = fragCurrent
-      ? fragCurrent.duration
-      : partCurrent
-      ? partCurrent.duration
-      : 0;
-    let minBitrateKbps = bitrateList[0].bitrate / 1000.0; // min bitrate level
-    let maxBitrateKbps = bitrateList[bitrateList.length - 1].bitrate / 1000.0; // max bitrate level
-    for (let i = 0; i < bitrateList.length; i++) {
-      // in case bitrateList is not sorted as expected
-      const b = bitrateList[i].bitrate / 1000.0;
-      if (b > maxBitrateKbps) maxBitrateKbps = b;
-      else if (b < minBitrateKbps) {
-        minBitrateKbps = b;
-      }
+  /**
+   * Snapshot of the state learned by the active rule (e.g. the LoL+ SOM), to warm start a later session.
+   * Returns null when the rule has no learned state.
+   */
+  public exportAbrRuleState(): unknown {
+    const { abrRuleInstance } = this;
+    if (abrRuleInstance) {
+      return abrRuleInstance.exportState?.() ?? null;
     }
+    const { pendingAbrRuleState } = this;
+    return pendingAbrRuleState?.abrRule === this.ABRRule
+      ? pendingAbrRuleState.state
+      : null;
+  }
 
-    // Learning rule pre-calculations
-    const currentBitrate = bitrateList[currentQuality].bitrate;
-    const currentBitrateKbps = currentBitrate / 1000.0;
-    const stats: LoaderStats = fragCurrent
-      ? fragCurrent.stats
-      : partCurrent!.stats;
-    const lastFragmentDownloadTime =
-      (stats.loading.end - stats.loading.start) / 1000;
-    const segmentRebufferTime =
-      lastFragmentDownloadTime > segmentDuration
-        ? lastFragmentDownloadTime - segmentDuration
-        : 0;
-    qoeEvaluator.setupPerSegmentQoe(
-      segmentDuration,
-      maxBitrateKbps,
-      minBitrateKbps
-    );
-    qoeEvaluator.logSegmentMetrics(
-      currentBitrateKbps,
-      segmentRebufferTime,
-      latency,
-      playbackRate
-    );
-    if (fragCurrent) this.lolpQoE = qoeEvaluator.getPerSegmentQoe()?.totalQoe;
-    else this.lolpQoE = null;
-
-    /*
-     * Dynamic Weights Selector (step 1/2: initialization)
-     */
-    const dynamicWeightsSelector: LoLpWeightSelector = new LoLpWeightSelector({
-      targetLatency: DWS_TARGET_LATENCY,
-      bufferMin: DWS_BUFFER_MIN,
-      segmentDuration,
-      qoeEvaluator,
-    });
-
-    /*
-     * Select next quality
-     */
-    const quality = learningController.getNextQuality(
-      bitrateList,
-      throughput * 1000,
-      latency,
-      currentBufferLevel,
-      playbackRate,
-      currentQuality,
-      dynamicWeightsSelector
-    );
-
-    // scheduleController.setTimeToLoadDelay(0);
-
-    if (media) media.playbackRate = this._LoLpPlaybackSpeed();
+  /**
+   * Restore a snapshot returned by exportAbrRuleState into the active rule.
+   * When the rule is not registered yet, the state is applied once it is created.
+   * @param {unknown} state
+   */
+  public importAbrRuleState(state: unknown) {
+    const { abrRuleInstance } = this;
+    if (!abrRuleInstance) {
+      this.pendingAbrRuleState = { abrRule: this.ABRRule, state };
+    } else if (abrRuleInstance.importState) {
+      abrRuleInstance.importState(state);
+    } else {
+      logger.warn(
+        `[abr-controller] ABR rule "${this.ABRRule}" does not support state import`
+      );
+    }
+  }
 
-    // return switchRequest;
-    return quality;
+  /**
+   * Replace the active ABR rule mid-stream. The previous rule is torn down before
+   * the new one takes its first decision at the next fragment boundary.
+   * @param {string} name
+   * @param {AbrRuleSwitchOptions} options
+   */
+  public setAbrRule(name: string, options: AbrRuleSwitchOptions = {}) {
+    const { hls } = this;
+    const previousAbrRule = this.ABRRule;
+    if (name === previousAbrRule) {
+      return;
+    }
+    if (!this.abrRules.has(name)) {
+      logger.warn(
+        `[abr-controller] Unknown ABR rule "${name}", keeping "${previousAbrRule}"`
+      );
+      return;
+    }
+    const { keepBandwidthEstimate = true, keepLevel = true } = options;
+    const playbackRateControl = !!this.abrRuleInstance?.playbackRateControl;
+
+    this.destroyAbrRule();
+    this.ABRRule = name;
+    this.createAbrRule();
+    this.shadow.setRules(this.abrConfig.abrShadowRules, name);
+    if (playbackRateControl && this.player.hasMedia) {
+      this.player.playbackRate = 1.0;
+    }
+    if (!keepBandwidthEstimate) {
+      this.resetEstimator();
+    }
+    const level = keepLevel ? this.lastLoadedFragLevel : hls.minAutoLevel;
+    if (!keepLevel) {
+      this._nextAutoLevel = level;
+    }
+    logger.log(`[abr-controller] ABR rule ${previousAbrRule} -> ${name}`);
+    triggerAbrEvent(hls, AbrEvents.ABR_RULE_CHANGED, {
+      abrRule: name,
+      previousAbrRule,
+      level,
+      bandwidthEstimate: this.bwEstimator.getEstimate(),
+    });
   }
 
   /**
@@ -708,7 +940,7 @@ class AbrController implements ComponentAPI {
     const { hls } = this;
     const { media } = hls;
     if (
-      this.useLoLpPlayback &&
+      this.abrConfig.abrCatchUp.enabled &&
       media &&
       media.playbackRate > 0 &&
       !media.paused &&
@@ -735,12 +967,15 @@ class AbrController implements ComponentAPI {
     );
 
     const currentPlaybackRate = media!.playbackRate;
-    const liveCatchupPlaybackRate = this.liveCatchupPlaybackRate;
+    const {
+      playbackRate: liveCatchupPlaybackRate,
+      playbackBufferMin,
+      targetLatency,
+    } = this.abrConfig.abrCatchUp;
     const currentLiveLatency = hls.latency;
-    const liveDelay = hls.targetLatency;
+    const liveDelay = hls.targetLatency ?? targetLatency;
     const bufferLevel = parseFloat(bufferStateVO.len.toFixed(2));
     // Custom playback control: Based on buffer level
-    const playbackBufferMin = this.playbackBufferMin;
     let newRate = this._calculateNewPlaybackRateLolP(
       liveCatchupPlaybackRate,
       currentLiveLatency,
@@ -785,10 +1020,13 @@ class AbrController implements ComponentAPI {
       );
       const currentBuffer = parseFloat(bufferStateVO.len.toFixed(2));
       const currentLiveLatency = hls.latency;
-      const liveDelay = hls.targetLatency;
-      const liveCatchUpMinDrift = this.liveCatchUpMinDrift;
-      const playbackBufferMin = this.playbackBufferMin;
-      const liveCatchupLatencyThreshold = this.liveCatchupLatencyThreshold;
+      const {
+        minDrift: liveCatchUpMinDrift,
+        playbackBufferMin,
+        latencyThreshold: liveCatchupLatencyThreshold,
+        targetLatency,
+      } = this.abrConfig.abrCatchUp;
+      const liveDelay = hls.targetLatency ?? targetLatency;
 
       return this._lolpNeedToCatchUpCustom(
         currentLiveLatency,
@@ -926,13 +1164,11 @@ class AbrController implements ComponentAPI {
   }
 
   /**
-   * Calculate QoE for the current stats
+   * Calculate QoE for the current stats and account it in the session QoE
    */
   private calculateQoE() {
     const { fragCurrent, lastLoadedFragLevel: currentLevel, hls } = this;
-    if (fragCurrent) {
-      // calculate QoE
-      const qoeEvaluator: LoLpQoeEvaluator = new LoLpQoeEvaluator();
+    if (fragCurrent && Number.isFinite(fragCurrent.sn as number)) {
       // QoE parameters
       const bitrateList = hls.levels; // [{bandwidth: 200000, width: 640, height: 360}, ...]
       const segmentDuration = fragCurrent.duration;
@@ -957,118 +1193,123 @@ class AbrController implements ComponentAPI {
         lastFragmentDownloadTime > segmentDuration
           ? lastFragmentDownloadTime - segmentDuration
           : 0;
-      qoeEvaluator.setupPerSegmentQoe(
-        segmentDuration,
+      const segmentQoe = this.qoeSession.logSegment({
+        sn: fragCurrent.sn as number,
+        cc: fragCurrent.cc,
+        level: currentLevel,
+        duration: segmentDuration,
+        bitrateKbps: currentBitrateKbps,
+        minBitrateKbps,
         maxBitrateKbps,
-        minBitrateKbps
-      );
-      qoeEvaluator.logSegmentMetrics(
-        currentBitrateKbps,
-        segmentRebufferTime,
-        hls.latency,
-        hls.media?.playbackRate
-      );
+        rebufferTime: segmentRebufferTime,
+        latency: hls.latency,
+        playbackRate: hls.media ? hls.media.playbackRate : 1,
+      });
 
-      this.lolpQoE = qoeEvaluator.getPerSegmentQoe()?.totalQoe;
+      // a segment is accounted once, at the first decision following its load
+      if (segmentQoe) {
+        this.lolpQoE = Object.assign(segmentQoe, {
+          sn: fragCurrent.sn,
+          level: currentLevel,
+          weights: this.qoeSession.getWeights()!,
+        });
+        triggerAbrEvent(hls, AbrEvents.QOE_UPDATED, this.lolpQoE);
+      }
     } else this.lolpQoE = null;
   }
 
   /**
-   * Use L2ARule for bitrate selection
-   * @returns {number} quality
+   * Publish the summary of the current QoE session and start a new one
    */
-  private _L2AAbr() {
-    const {
-      fragCurrent,
-      partCurrent,
-      lastLoadedFragLevel: currentLevel,
-      hls,
-    } = this;
-    if (this.l2aRule === null) {
-      this.l2aRule = new L2ARule({
-        hls: hls,
-        fragCurrent: fragCurrent,
-        partCurrent: partCurrent,
-        currentQuality: currentLevel,
-      });
-    } else {
-      this.l2aRule.update({
-        hls: hls,
-        fragCurrent: fragCurrent,
-        partCurrent: partCurrent,
-        currentQuality: currentLevel,
-      });
+  private endQoeSession() {
+    const { qoeSession } = this;
+    this.qoeSession = new LoLpQoeSession();
+    this.lolpQoE = null;
+    if (qoeSession.hasSegments()) {
+      triggerAbrEvent(
+        this.hls,
+        AbrEvents.QOE_SESSION_SUMMARY,
+        qoeSession.getSummary()
+      );
     }
-    const quality = this.l2aRule.getMaxIndex();
-
-    this.calculateQoE();
-    // hls.latencyController.timeupdate();
-    return quality;
   }
 
   /**
-   * Use Llama ABR rule for bitrate selection
+   * Use the active rule of the registry for bitrate selection
    * @returns {number} quality
    */
-  private _LlamaAbr() {
-    const {
-      fragCurrent,
-      partCurrent,
-      lastLoadedFragLevel: currentLevel,
-      hls,
-    } = this;
-    if (this.llama === null) {
-      if (fragCurrent !== null)
-        this.llama = new LlamaABR({
-          hls: hls,
-          fragCurrent: fragCurrent,
-          partCurrent: partCurrent,
-          currentQuality: currentLevel,
-        });
-    } else {
-      this.llama.update({
-        hls: hls,
-        fragCurrent: fragCurrent,
-        partCurrent: partCurrent,
-        currentQuality: currentLevel,
-      });
+  private _ruleAbr() {
+    const { player } = this;
+    if (this.abrRuleInstance === null) {
+      // the rule was registered after the controller selected it
+      this.createAbrRule();
+      if (this.abrRuleInstance === null) {
+        return this.getNextABRAutoLevel();
+      }
     }
-    const quality = this.llama === null ? 0 : this.llama.getMaxIndex();
+    const context = this.getRuleContext();
+    const quality = this.abrRuleInstance.getNextQuality(context);
+    this.decisionInfo = this.abrRuleInstance.getDecisionInfo?.() || null;
 
     this.calculateQoE();
+    if (this.abrRuleInstance.playbackRateControl && player.hasMedia) {
+      player.playbackRate = this._LoLpPlaybackSpeed();
+    }
     return quality;
   }
 
   /**
-   * Use Stallion ABR rule for bitrate selection
-   * @returns {number} quality
+   * Inputs of the rules for the next decision
+   * @returns {AbrRuleContext}
    */
-  private _StallionAbr() {
-    const {
-      fragCurrent,
-      partCurrent,
-      lastLoadedFragLevel: currentLevel,
-      hls,
-    } = this;
-    if (this.stallionRule === null) {
-      this.stallionRule = new StallionRule({
-        hls: hls,
-        fragCurrent: fragCurrent,
-        partCurrent: partCurrent,
-        currentQuality: currentLevel,
-      });
+  private getRuleContext(): AbrRuleContext {
+    return {
+      player: this.player,
+      config: this.abrConfig,
+      fragCurrent: this.fragCurrent,
+      partCurrent: this.partCurrent,
+      currentQuality: this.lastLoadedFragLevel,
+    };
+  }
+
+  /**
+   * Create and initialize the active rule, so that it already receives the
+   * fragment events that precede its first decision
+   */
+  private createAbrRule() {
+    this.abrRuleInstance = this.abrRules.create(this.ABRRule, this.player);
+    if (this.abrRuleInstance) {
+      this.abrRuleInstance.init(this.getRuleContext());
+      this.applyPendingAbrRuleState();
+    }
+  }
+
+  /**
+   * Import the state handed to importAbrRuleState before the active rule was created
+   */
+  private applyPendingAbrRuleState() {
+    const { abrRuleInstance, pendingAbrRuleState } = this;
+    if (!abrRuleInstance || pendingAbrRuleState?.abrRule !== this.ABRRule) {
+      return;
+    }
+    this.pendingAbrRuleState = null;
+    if (abrRuleInstance.importState) {
+      abrRuleInstance.importState(pendingAbrRuleState.state);
     } else {
-      this.stallionRule.update({
-        hls: hls,
-        fragCurrent: fragCurrent,
-        partCurrent: partCurrent,
-        currentQuality: currentLevel,
-      });
+      logger.warn(
+        `[abr-controller] ABR rule "${this.ABRRule}" does not support state import`
+      );
     }
-    const quality = this.stallionRule.getMaxIndex();
+  }
 
-    this.calculateQoE();
-    return quality;
+  /**
+   * Release the listeners and state of the active rule
+   */
+  private destroyAbrRule() {
+    if (this.abrRuleInstance) {
+      this.abrRuleInstance.destroy();
+      this.abrRuleInstance = null;
+    }
   }
 }
 
@@ -0,0 +1,96 @@
+import { logger } from '../utils/logger';
+import LoLpAbrRule from './LoLpAbrRule';
+import L2ARule from './L2ARule';
+import LlamaABR from './LlamaRule';
+import StallionRule from './StallionRule';
+import BolaRule from './BolaRule';
+import MpcRule from './MpcRule';
+import BbaRule from './BbaRule';
+import PandaRule from './PandaRule';
+import FestiveRule from './FestiveRule';
+import PensieveRule from './PensieveRule';
+import BanditRule from './BanditRule';
+import QLearningRule from './QLearningRule';
+import SodaRule from './SodaRule';
+import InsufficientBufferRule from './InsufficientBufferRule';
+import SwitchHistoryRule from './SwitchHistoryRule';
+import DroppedFramesRule from './DroppedFramesRule';
+import AbandonRequestsRule from './AbandonRequestsRule';
+import type { PlayerContext } from '../types/player-context';
+import type {
+  AbrRule,
+  AbrRuleClass,
+  AbrRuleClassMap,
+  AbrSwitchRuleClass,
+} from '../types/abr-rule';
+
+export const defaultAbrRules: AbrRuleClassMap = {
+  LoLp: LoLpAbrRule,
+  L2ARule: L2ARule,
+  Llama: LlamaABR,
+  StallionRule: StallionRule,
+  Bola: BolaRule,
+  MPC: MpcRule,
+  BBA: BbaRule,
+  PANDA: PandaRule,
+  FESTIVE: FestiveRule,
+  Pensieve: PensieveRule,
+  Bandit: BanditRule,
+  QLearning: QLearningRule,
+  SODA: SodaRule,
+};
+
+// secondary rules available to abrSecondaryRules
+export const defaultSwitchRules: Record<string, AbrSwitchRuleClass> = {
+  InsufficientBufferRule: InsufficientBufferRule,
+  SwitchHistoryRule: SwitchHistoryRule,
+  DroppedFramesRule: DroppedFramesRule,
+  AbandonRequestsRule: AbandonRequestsRule,
+};
+
+export default class AbrRuleRegistry {
+  private readonly rules: Map<string, AbrRuleClass> = new Map();
+
+  constructor(rules?: AbrRuleClassMap) {
+    this.registerAll(defaultAbrRules);
+    if (rules) {
+      this.registerAll(rules);
+    }
+  }
+
+  /**
+   * Registers a rule class under the given name, replacing any rule of the same name
+   * @param {string} name
+   * @param {AbrRuleClass} ruleClass
+   */
+  register(name: string, ruleClass: AbrRuleClass) {
+    if (typeof ruleClass !== 'function') {
+      logger.warn(`[abr-rule-registry] Ignoring invalid ABR rule "${name}"`);
+      return;
+    }
+    this.rules.set(name, ruleClass);
+  }
+
+  registerAll(rules: AbrRuleClassMap) {
+    Object.keys(rules).forEach((name) => this.register(name, rules[name]));
+  }
+
+  has(name: string): boolean {
+    return this.rules.has(name);
+  }
+
+  get names(): string[] {
+    return Array.from(this.rules.keys());
+  }
+
+  /**
+   * Returns a new instance of the named rule, or null if no such rule is registered
+   * @param {string} name
+   * @param {PlayerContext} player
+   * @return {AbrRule | null}
+   */
+  create(name: string, player: PlayerContext): AbrRule | null {
+    const RuleClass = this.rules.get(name);
+    return RuleClass ? new RuleClass(player) : null;
+  }
+}
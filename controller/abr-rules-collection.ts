@@ -0,0 +1,185 @@
+import { logger } from '../utils/logger';
+import { ABR_NO_CHANGE, AbrSwitchPriority } from '../types/abr-rule';
+import type { FragBufferedData, FragLoadedData } from '../types/events';
+import type { PlayerContext, PlayerLevel } from '../types/player-context';
+import type {
+  AbrRuleCombinator,
+  AbrRuleContext,
+  AbrSwitchRequest,
+  AbrSwitchRule,
+  AbrSwitchRuleClass,
+} from '../types/abr-rule';
+
+export interface AbrPipelineResult {
+  quality: number;
+  // secondary rule whose request was selected, null when the active rule's level is kept
+  secondaryRule: string | null;
+  reason?: string;
+}
+
+interface NamedSwitchRule {
+  name: string;
+  rule: AbrSwitchRule;
+}
+
+/**
+ * Returns the highest level whose bitrate does not exceed the given bitrate, 0 if none
+ * @param {PlayerLevel[]} levels
+ * @param {number} bitrate - bps
+ * @return {number}
+ */
+export function getQualityForBitrate(
+  levels: PlayerLevel[],
+  bitrate: number
+): number {
+  let quality = 0;
+  for (let i = 0; i < levels.length; i++) {
+    if (levels[i].bitrate <= bitrate) {
+      quality = i;
+    }
+  }
+  return quality;
+}
+
+/**
+ * Ordered secondary rules combined with the level of the active rule, as in the dash.js ABRRulesCollection.
+ * The active rule counts as a request of DEFAULT priority.
+ */
+export default class AbrRulesCollection {
+  private rules: NamedSwitchRule[] = [];
+
+  /**
+   * @param {PlayerContext} player
+   * @param {Record<string, AbrSwitchRuleClass>} ruleClasses - available rules by name
+   * @param {string[]} names - rules to run, in order
+   */
+  constructor(
+    player: PlayerContext,
+    ruleClasses: Record<string, AbrSwitchRuleClass>,
+    names: string[]
+  ) {
+    names.forEach((name) => {
+      const RuleClass = ruleClasses[name];
+      if (typeof RuleClass !== 'function') {
+        logger.warn(`[abr-rules-collection] Unknown secondary rule "${name}"`);
+        return;
+      }
+      this.rules.push({ name, rule: new RuleClass(player) });
+    });
+  }
+
+  get active(): boolean {
+    return this.rules.length > 0;
+  }
+
+  onFragLoaded(data: FragLoadedData) {
+    this.rules.forEach(({ rule }) => rule.onFragLoaded?.(data));
+  }
+
+  onFragBuffered(data: FragBufferedData) {
+    this.rules.forEach(({ rule }) => rule.onFragBuffered?.(data));
+  }
+
+  onBufferStalled() {
+    this.rules.forEach(({ rule }) => rule.onBufferStalled?.());
+  }
+
+  onLevelSwitching(level: number) {
+    this.rules.forEach(({ rule }) => rule.onLevelSwitching?.(level));
+  }
+
+  /**
+   * Combines the level of the active rule with the requests of the secondary rules: requests of the
+   * highest priority present win, and the lowest ('min') or highest ('max') of their levels is used
+   * @param {AbrRuleContext} context
+   * @param {number} quality - level chosen by the active rule
+   * @param {AbrRuleCombinator} combinator
+   * @return {AbrPipelineResult}
+   */
+  getMaxQuality(
+    context: AbrRuleContext,
+    quality: number,
+    combinator: AbrRuleCombinator
+  ): AbrPipelineResult {
+    const requests: Array<AbrSwitchRequest & { name: string | null }> = [
+      { quality, priority: AbrSwitchPriority.DEFAULT, name: null },
+    ];
+    this.rules.forEach(({ name, rule }) => {
+      if (rule.getSwitchRequest) {
+        requests.push(Object.assign(rule.getSwitchRequest(context), { name }));
+      }
+    });
+    const selected = selectSwitchRequest(requests, combinator);
+    if (!selected || selected.quality === quality) {
+      return { quality, secondaryRule: null };
+    }
+    return {
+      quality: selected.quality,
+      secondaryRule: selected.name,
+      reason: selected.reason,
+    };
+  }
+
+  /**
+   * Polls the abandon rules for the loading fragment, in the same way as getMaxQuality
+   * @param {AbrRuleContext} context
+   * @param {AbrRuleCombinator} combinator
+   * @return {AbrPipelineResult | null} null to keep loading
+   */
+  shouldAbandon(
+    context: AbrRuleContext,
+    combinator: AbrRuleCombinator
+  ): AbrPipelineResult | null {
+    const requests: Array<AbrSwitchRequest & { name: string }> = [];
+    this.rules.forEach(({ name, rule }) => {
+      if (rule.shouldAbandon) {
+        requests.push(Object.assign(rule.shouldAbandon(context), { name }));
+      }
+    });
+    const selected = selectSwitchRequest(requests, combinator);
+    return selected
+      ? {
+          quality: selected.quality,
+          secondaryRule: selected.name,
+          reason: selected.reason,
+        }
+      : null;
+  }
+
+  onDecision(previousQuality: number, quality: number) {
+    this.rules.forEach(({ rule }) =>
+      rule.onDecision?.(previousQuality, quality)
+    );
+  }
+
+  destroy() {
+    this.rules.forEach(({ rule }) => rule.destroy());
+    this.rules = [];
+  }
+}
+
+/**
+ * Returns the request of the highest priority with the lowest or highest level, null if every rule abstained
+ */
+function selectSwitchRequest<T extends AbrSwitchRequest>(
+  requests: T[],
+  combinator: AbrRuleCombinator
+): T | null {
+  let selected: T | null = null;
+  requests.forEach((request) => {
+    if (request.quality === ABR_NO_CHANGE) {
+      return;
+    }
+    if (
+      !selected ||
+      request.priority > selected.priority ||
+      (request.priority === selected.priority &&
+        (combinator === 'max'
+          ? request.quality > selected.quality
+          : request.quality < selected.quality))
+    ) {
+      selected = request;
+    }
+  });
+  return selected;
+}
@@ -0,0 +1,346 @@
+import { logger } from '../utils/logger';
+import { AbrDecisionReason } from '../types/abr-rule';
+import type AbrRuleRegistry from './abr-rule-registry';
+import type { BufferInfo } from '../utils/buffer-helper';
+import type { FragBufferedData, FragLoadedData } from '../types/events';
+import type {
+  PlayerContext,
+  PlayerLevel,
+  PlayerPlaybackQuality,
+} from '../types/player-context';
+import type {
+  AbrRule,
+  AbrRuleContext,
+  AbrShadowDecision,
+  AbrShadowStats,
+} from '../types/abr-rule';
+
+/**
+ * PlayerContext handed to shadow rules: reads go to the player, writes to the playback rate are dropped
+ */
+class ShadowPlayerContext implements PlayerContext {
+  private readonly player: PlayerContext;
+
+  constructor(player: PlayerContext) {
+    this.player = player;
+  }
+
+  get levels(): PlayerLevel[] {
+    return this.player.levels;
+  }
+
+  get currentLevel(): number {
+    return this.player.currentLevel;
+  }
+
+  get hasMedia(): boolean {
+    return this.player.hasMedia;
+  }
+
+  get currentTime(): number {
+    return this.player.currentTime;
+  }
+
+  get paused(): boolean {
+    return this.player.paused;
+  }
+
+  get seeking(): boolean {
+    return this.player.seeking;
+  }
+
+  get playbackRate(): number {
+    return this.player.playbackRate;
+  }
+
+  set playbackRate(playbackRate: number) {
+    // only the active rule controls playback
+  }
+
+  get isLive(): boolean {
+    return this.player.isLive;
+  }
+
+  get latency(): number {
+    return this.player.latency;
+  }
+
+  get targetLatency(): number | null {
+    return this.player.targetLatency;
+  }
+
+  get maxLatency(): number {
+    return this.player.maxLatency;
+  }
+
+  get bandwidthEstimate(): number {
+    return this.player.bandwidthEstimate;
+  }
+
+  getBufferInfo(maxHoleDuration: number): BufferInfo {
+    return this.player.getBufferInfo(maxHoleDuration);
+  }
+
+  getVideoPlaybackQuality(): PlayerPlaybackQuality | null {
+    return this.player.getVideoPlaybackQuality();
+  }
+
+  now(): number {
+    return this.player.now();
+  }
+
+  setInterval(callback: () => void, delay: number): number {
+    return this.player.setInterval(callback, delay);
+  }
+
+  clearInterval(id: number | undefined) {
+    this.player.clearInterval(id);
+  }
+}
+
+interface ShadowRule {
+  name: string;
+  rule: AbrRule;
+  initialized: boolean;
+  decisions: AbrShadowDecision[];
+  // totals over every decision, including the ones dropped from the trace
+  decisionCount: number;
+  disagreementCount: number;
+  higherCount: number;
+  lowerCount: number;
+  levelDifferenceSum: number;
+  absoluteLevelDifferenceSum: number;
+}
+
+/**
+ * Runs inactive rules on the inputs of the active one and records what they would have chosen.
+ * Each shadow rule is a separate instance fed the same hooks, so its state never leaks into playback.
+ */
+export default class AbrShadowEvaluator {
+  private readonly registry: AbrRuleRegistry;
+  private readonly player: PlayerContext;
+  private shadowRules: ShadowRule[] = [];
+  private readonly traceLength: number;
+
+  constructor(
+    registry: AbrRuleRegistry,
+    player: PlayerContext,
+    traceLength: number
+  ) {
+    this.registry = registry;
+    this.player = new ShadowPlayerContext(player);
+    this.traceLength = traceLength;
+  }
+
+  get active(): boolean {
+    return this.shadowRules.length > 0;
+  }
+
+  /**
+   * Creates the shadow rules missing from the list and destroys the ones no longer in it.
+   * The active rule and unknown names are skipped.
+   * @param {string[]} names
+   * @param {string} activeAbrRule
+   */
+  setRules(names: string[], activeAbrRule: string) {
+    const wanted = names.filter(
+      (name, i) =>
+        name !== activeAbrRule &&
+        names.indexOf(name) === i &&
+        this.registry.has(name)
+    );
+    names
+      .filter((name) => !this.registry.has(name))
+      .forEach((name) =>
+        logger.warn(`[abr-shadow] Unknown ABR rule "${name}", not shadowed`)
+      );
+    this.shadowRules = this.shadowRules.filter((shadowRule) => {
+      if (wanted.indexOf(shadowRule.name) === -1) {
+        shadowRule.rule.destroy();
+        return false;
+      }
+      return true;
+    });
+    wanted.forEach((name) => {
+      if (this.shadowRules.some((shadowRule) => shadowRule.name === name)) {
+        return;
+      }
+      const rule = this.registry.create(name, this.player);
+      if (rule) {
+        this.shadowRules.push(createShadowRule(name, rule));
+      }
+    });
+  }
+
+  onFragLoaded(data: FragLoadedData) {
+    this.forEachRule((rule) => rule.onFragLoaded?.(data));
+  }
+
+  onFragBuffered(data: FragBufferedData) {
+    this.forEachRule((rule) => rule.onFragBuffered?.(data));
+  }
+
+  onBufferStalled() {
+    this.forEachRule((rule) => rule.onBufferStalled?.());
+  }
+
+  onLevelSwitching(level: number) {
+    this.forEachRule((rule) => rule.onLevelSwitching?.(level));
+  }
+
+  /**
+   * Asks every shadow rule for its next quality on the context of the active decision.
+   * A later decision at the same boundary replaces the previous one.
+   * @param {AbrRuleContext} context - context of the active rule
+   * @param {string} activeAbrRule
+   * @param {number} activeLevel - level chosen for playback
+   */
+  evaluate(
+    context: AbrRuleContext,
+    activeAbrRule: string,
+    activeLevel: number
+  ) {
+    const { fragCurrent, partCurrent } = context;
+    const shadowContext: AbrRuleContext = Object.assign({}, context, {
+      player: this.player,
+    });
+    const sn =
+      fragCurrent && Number.isFinite(fragCurrent.sn as number)
+        ? (fragCurrent.sn as number)
+        : -1;
+    const part = partCurrent ? partCurrent.index : -1;
+    this.forEachRule((rule, shadowRule) => {
+      if (!shadowRule.initialized) {
+        rule.init(shadowContext);
+        shadowRule.initialized = true;
+      }
+      const level = rule.getNextQuality(shadowContext);
+      const info = rule.getDecisionInfo?.() || null;
+      const { decisions } = shadowRule;
+      const last = decisions[decisions.length - 1];
+      if (last && last.sn === sn && last.part === part && sn !== -1) {
+        accountDecision(shadowRule, last, -1);
+        decisions.pop();
+      }
+      const decision: AbrShadowDecision = {
+        abrRule: shadowRule.name,
+        sn,
+        part,
+        time: this.player.now(),
+        level,
+        reason: info ? info.reason : AbrDecisionReason.UNSPECIFIED,
+        activeAbrRule,
+        activeLevel,
+      };
+      accountDecision(shadowRule, decision, 1);
+      decisions.push(decision);
+      if (decisions.length > this.traceLength) {
+        decisions.shift();
+      }
+    });
+  }
+
+  /**
+   * Recorded decisions of every shadow rule, oldest first
+   */
+  getDecisions(): Record<string, AbrShadowDecision[]> {
+    const decisions: Record<string, AbrShadowDecision[]> = {};
+    this.shadowRules.forEach((shadowRule) => {
+      decisions[shadowRule.name] = shadowRule.decisions.slice();
+    });
+    return decisions;
+  }
+
+  /**
+   * Agreement of every shadow rule with the active one since the last reset
+   */
+  getStats(): Record<string, AbrShadowStats> {
+    const stats: Record<string, AbrShadowStats> = {};
+    this.shadowRules.forEach((shadowRule) => {
+      const count = shadowRule.decisionCount;
+      stats[shadowRule.name] = {
+        abrRule: shadowRule.name,
+        decisionCount: count,
+        disagreementCount: shadowRule.disagreementCount,
+        disagreementRate: count ? shadowRule.disagreementCount / count : 0,
+        higherCount: shadowRule.higherCount,
+        lowerCount: shadowRule.lowerCount,
+        meanLevelDifference: count ? shadowRule.levelDifferenceSum / count : 0,
+        meanAbsoluteLevelDifference: count
+          ? shadowRule.absoluteLevelDifferenceSum / count
+          : 0,
+      };
+    });
+    return stats;
+  }
+
+  /**
+   * Drops the recorded decisions and statistics, keeping the rules and their state
+   */
+  reset() {
+    this.shadowRules = this.shadowRules.map((shadowRule) =>
+      Object.assign(createShadowRule(shadowRule.name, shadowRule.rule), {
+        initialized: shadowRule.initialized,
+      })
+    );
+  }
+
+  destroy() {
+    this.shadowRules.forEach((shadowRule) => shadowRule.rule.destroy());
+    this.shadowRules = [];
+  }
+
+  /**
+   * Calls a shadow rule, disabling it if it throws so that playback is never affected
+   */
+  private forEachRule(
+    callback: (rule: AbrRule, shadowRule: ShadowRule) => void
+  ) {
+    this.shadowRules.slice().forEach((shadowRule) => {
+      try {
+        callback(shadowRule.rule, shadowRule);
+      } catch (error) {
+        logger.warn(
+          `[abr-shadow] ABR rule "${shadowRule.name}" failed and is no longer shadowed: ${error}`
+        );
+        this.shadowRules.splice(this.shadowRules.indexOf(shadowRule), 1);
+        shadowRule.rule.destroy();
+      }
+    });
+  }
+}
+
+function createShadowRule(name: string, rule: AbrRule): ShadowRule {
+  return {
+    name,
+    rule,
+    initialized: false,
+    decisions: [],
+    decisionCount: 0,
+    disagreementCount: 0,
+    higherCount: 0,
+    lowerCount: 0,
+    levelDifferenceSum: 0,
+    absoluteLevelDifferenceSum: 0,
+  };
+}
+
+// adds (sign 1) or removes (sign -1) a decision from the statistics
+function accountDecision(
+  shadowRule: ShadowRule,
+  decision: AbrShadowDecision,
+  sign: number
+) {
+  const difference = decision.level - decision.activeLevel;
+  shadowRule.decisionCount += sign;
+  if (difference !== 0) {
+    shadowRule.disagreementCount += sign;
+  }
+  if (difference > 0) {
+    shadowRule.higherCount += sign;
+  } else if (difference < 0) {
+    shadowRule.lowerCount += sign;
+  }
+  shadowRule.levelDifferenceSum += sign * difference;
+  shadowRule.absoluteLevelDifferenceSum += sign * Math.abs(difference);
+}
@@ -0,0 +1,134 @@
+import type { RandomGenerator } from '../utils/random';
+
+/**
+ * Bayesian linear regression of a reward on a context vector, with a Gaussian prior of precision
+ * priorPrecision on the weights. Observations can be discounted so that the posterior follows a
+ * non-stationary reward.
+ */
+export default class BayesianLinearModel {
+  private readonly priorPrecision: number;
+  // posterior precision matrix, priorPrecision * I + sum of x * x^T
+  private precision: number[][];
+  // sum of reward * x
+  private weightedRewards: number[];
+  private observations: number = 0;
+
+  constructor(dimension: number, priorPrecision: number) {
+    this.priorPrecision = priorPrecision;
+    this.precision = identity(dimension, priorPrecision);
+    this.weightedRewards = new Array(dimension).fill(0);
+  }
+
+  get observationCount(): number {
+    return this.observations;
+  }
+
+  /**
+   * Accounts an observed reward, past observations being discounted by forgettingFactor
+   * @param {number[]} context
+   * @param {number} reward
+   * @param {number} forgettingFactor - 1 to weigh all observations equally
+   */
+  update(context: number[], reward: number, forgettingFactor: number) {
+    const { precision, weightedRewards, priorPrecision } = this;
+    for (let i = 0; i < context.length; i++) {
+      for (let j = 0; j < context.length; j++) {
+        // the prior is not discounted
+        const prior = i === j ? priorPrecision : 0;
+        precision[i][j] =
+          prior +
+          forgettingFactor * (precision[i][j] - prior) +
+          context[i] * context[j];
+      }
+      weightedRewards[i] =
+        forgettingFactor * weightedRewards[i] + reward * context[i];
+    }
+    this.observations++;
+  }
+
+  /**
+   * Draws weights from the posterior, N(mean, scale^2 * precision^-1)
+   * @param {number} scale - exploration scale, the reward noise standard deviation
+   * @param {RandomGenerator} random
+   * @return {number[]}
+   */
+  sample(scale: number, random: RandomGenerator): number[] {
+    const lower = cholesky(this.precision);
+    const mean = solveCholesky(lower, this.weightedRewards);
+    // L^T y = z gives y ~ N(0, (L L^T)^-1)
+    const deviation = solveUpper(
+      lower,
+      mean.map(() => scale * gaussian(random))
+    );
+    return mean.map((value, i) => value + deviation[i]);
+  }
+}
+
+/**
+ * @param {number[]} weights
+ * @param {number[]} context
+ * @return {number} predicted reward
+ */
+export function predictReward(weights: number[], context: number[]): number {
+  return weights.reduce((sum, weight, i) => sum + weight * context[i], 0);
+}
+
+function identity(dimension: number, value: number): number[][] {
+  const matrix: number[][] = [];
+  for (let i = 0; i < dimension; i++) {
+    matrix.push(new Array(dimension).fill(0));
+    matrix[i][i] = value;
+  }
+  return matrix;
+}
+
+// lower triangular L with L * L^T = matrix, the matrix being symmetric positive definite
+function cholesky(matrix: number[][]): number[][] {
+  const n = matrix.length;
+  const lower = identity(n, 0);
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = matrix[i][j];
+      for (let k = 0; k < j; k++) {
+        sum -= lower[i][k] * lower[j][k];
+      }
+      lower[i][j] =
+        i === j ? Math.sqrt(Math.max(sum, 1e-12)) : sum / lower[j][j];
+    }
+  }
+  return lower;
+}
+
+// solves L * L^T * x = b
+function solveCholesky(lower: number[][], b: number[]): number[] {
+  const n = b.length;
+  const y: number[] = [];
+  for (let i = 0; i < n; i++) {
+    let sum = b[i];
+    for (let k = 0; k < i; k++) {
+      sum -= lower[i][k] * y[k];
+    }
+    y.push(sum / lower[i][i]);
+  }
+  return solveUpper(lower, y);
+}
+
+// solves L^T * x = y
+function solveUpper(lower: number[][], y: number[]): number[] {
+  const n = y.length;
+  const x: number[] = new Array(n).fill(0);
+  for (let i = n - 1; i >= 0; i--) {
+    let sum = y[i];
+    for (let k = i + 1; k < n; k++) {
+      sum -= lower[k][i] * x[k];
+    }
+    x[i] = sum / lower[i][i];
+  }
+  return x;
+}
+
+// standard normal sample (Box-Muller)
+function gaussian(random: RandomGenerator): number {
+  const u = 1 - random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
@@ -0,0 +1,110 @@
+import { BufferHelper } from '../utils/buffer-helper';
+import type Hls from '../hls';
+import type { BufferInfo } from '../utils/buffer-helper';
+import type {
+  PlayerContext,
+  PlayerLevel,
+  PlayerPlaybackQuality,
+} from '../types/player-context';
+
+/**
+ * PlayerContext reading the state of a live hls.js instance and its media element
+ */
+export default class HlsPlayerContext implements PlayerContext {
+  private readonly hls: Hls;
+
+  constructor(hls: Hls) {
+    this.hls = hls;
+  }
+
+  get levels(): PlayerLevel[] {
+    return this.hls.levels || [];
+  }
+
+  get currentLevel(): number {
+    return this.hls.currentLevel;
+  }
+
+  get hasMedia(): boolean {
+    return !!this.hls.media;
+  }
+
+  get currentTime(): number {
+    const { media } = this.hls;
+    return media ? media.currentTime : 0;
+  }
+
+  get paused(): boolean {
+    const { media } = this.hls;
+    return media ? media.paused : true;
+  }
+
+  get seeking(): boolean {
+    const { media } = this.hls;
+    return media ? media.seeking : false;
+  }
+
+  get playbackRate(): number {
+    const { media } = this.hls;
+    return media ? media.playbackRate : 1;
+  }
+
+  set playbackRate(playbackRate: number) {
+    const { media } = this.hls;
+    if (media) {
+      media.playbackRate = playbackRate;
+    }
+  }
+
+  get isLive(): boolean {
+    const level = this.levels.find((level) => !!level.details);
+    return !!level?.details?.live;
+  }
+
+  get latency(): number {
+    return this.hls.latency || 0;
+  }
+
+  get targetLatency(): number | null {
+    return this.hls.targetLatency;
+  }
+
+  get maxLatency(): number {
+    return this.hls.maxLatency;
+  }
+
+  get bandwidthEstimate(): number {
+    return this.hls.bandwidthEstimate;
+  }
+
+  getBufferInfo(maxHoleDuration: number): BufferInfo {
+    const { media } = this.hls;
+    return BufferHelper.bufferInfo(
+      media,
+      media ? media.currentTime : 0,
+      maxHoleDuration
+    );
+  }
+
+  getVideoPlaybackQuality(): PlayerPlaybackQuality | null {
+    const media = this.hls.media as HTMLVideoElement | null;
+    if (!media || typeof media.getVideoPlaybackQuality !== 'function') {
+      return null;
+    }
+    const { droppedVideoFrames, totalVideoFrames } =
+      media.getVideoPlaybackQuality();
+    return { droppedVideoFrames, totalVideoFrames };
+  }
+
+  now(): number {
+    return performance.now();
+  }
+
+  setInterval(callback: () => void, delay: number): number {
+    return self.setInterval(callback, delay);
+  }
+
+  clearInterval(id: number | undefined) {
+    self.clearInterval(id);
+  }
+}
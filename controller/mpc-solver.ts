@@ -0,0 +1,252 @@
+import LoLpQoeEvaluator from './LoLpQoeEvaluator';
+
+export interface MpcInput {
+  // level ladder (bps), lowest first
+  bitrates: number[];
+  // durations (s) of the next parts or segments, one per lookahead step
+  durations: number[];
+  // s
+  bufferLevel: number;
+  // s, 0 when not live
+  latency: number;
+  // assumed constant over the horizon
+  playbackRate: number;
+  // predicted throughput (bps)
+  throughput: number;
+  // level of the last loaded part or segment, -1 when unknown
+  lastQuality: number;
+  // the buffer cannot grow past the live edge
+  isLive: boolean;
+}
+
+export interface MpcPlan {
+  // first level of the best plan
+  quality: number;
+  // QoE of the best plan
+  qoe: number;
+  // QoE of the best plan starting with each level, indexed by level
+  scores: number[];
+}
+
+/**
+ * FastMPC decision table, solved offline by buildFastMpcTable and loaded as JSON
+ */
+export interface FastMpcTable {
+  // level ladder (bps) the table was solved for, lowest first
+  bitrates: number[];
+  // duration (s) of every lookahead step
+  partDuration: number;
+  horizon: number;
+  // latency (s) the table was solved at, 0 for VOD
+  latency: number;
+  isLive: boolean;
+  // lower edges (s) of the buffer level bins, ascending
+  bufferBins: number[];
+  // lower edges (bps) of the predicted throughput bins, ascending
+  throughputBins: number[];
+  // level for [lastQuality][bufferBin][throughputBin], flattened
+  decisions: number[];
+}
+
+export type FastMpcTableOptions = Omit<FastMpcTable, 'decisions'>;
+
+/**
+ * Returns the plan maximizing the LoL+ QoE over the lookahead horizon, enumerating every level sequence
+ * (levels ^ horizon plans) as RobustMPC does
+ * @param {MpcInput} input
+ * @return {MpcPlan}
+ */
+export function solveMpc(input: MpcInput): MpcPlan {
+  const { bitrates, durations, playbackRate, throughput, isLive } = input;
+  const qoeEvaluator = new LoLpQoeEvaluator();
+  qoeEvaluator.setupPerSegmentQoe(
+    durations[0],
+    bitrates[bitrates.length - 1] / 1000,
+    bitrates[0] / 1000
+  );
+  const rate = playbackRate > 0 ? playbackRate : 1;
+
+  const search = (
+    step: number,
+    bufferLevel: number,
+    latency: number,
+    lastBitrateKbps: number | null
+  ): number => {
+    if (step === durations.length) {
+      return 0;
+    }
+    let best = -Infinity;
+    for (let i = 0; i < bitrates.length; i++) {
+      const qoe = evaluateStep(step, i, bufferLevel, latency, lastBitrateKbps);
+      if (qoe > best) {
+        best = qoe;
+      }
+    }
+    return best;
+  };
+
+  const evaluateStep = (
+    step: number,
+    quality: number,
+    bufferLevel: number,
+    latency: number,
+    lastBitrateKbps: number | null
+  ): number => {
+    const bitrateKbps = bitrates[quality] / 1000;
+    const duration = durations[step];
+    const downloadTime = (bitrates[quality] * duration) / throughput;
+    // the buffer drains at the playback rate while the part downloads
+    const rebufferTime = Math.max(0, downloadTime - bufferLevel / rate);
+    let nextBuffer =
+      Math.max(0, bufferLevel - downloadTime * rate) + duration;
+    // the live edge moves in real time, the playhead at the playback rate
+    const nextLatency =
+      latency + rebufferTime + (1 - rate) * (downloadTime - rebufferTime);
+    if (isLive && nextLatency > 0) {
+      nextBuffer = Math.min(nextBuffer, nextLatency);
+    }
+    return (
+      qoeEvaluator.calculateSingleUseQoe(
+        bitrateKbps,
+        rebufferTime,
+        nextLatency,
+        rate,
+        lastBitrateKbps
+      ) + search(step + 1, nextBuffer, nextLatency, bitrateKbps)
+    );
+  };
+
+  const lastBitrateKbps =
+    input.lastQuality >= 0 && input.lastQuality < bitrates.length
+      ? bitrates[input.lastQuality] / 1000
+      : null;
+  const scores = bitrates.map((bitrate, quality) =>
+    evaluateStep(0, quality, input.bufferLevel, input.latency, lastBitrateKbps)
+  );
+  let quality = 0;
+  for (let i = 1; i < scores.length; i++) {
+    if (scores[i] > scores[quality]) {
+      quality = i;
+    }
+  }
+  return { quality, qoe: scores[quality], scores };
+}
+
+/**
+ * Solves the MPC plan of every (last level, buffer bin, throughput bin) state, at the lower edge of the bins
+ * @param {FastMpcTableOptions} options
+ * @return {FastMpcTable}
+ */
+export function buildFastMpcTable(options: FastMpcTableOptions): FastMpcTable {
+  const { bitrates, partDuration, horizon, bufferBins, throughputBins } =
+    options;
+  const durations: number[] = [];
+  for (let i = 0; i < horizon; i++) {
+    durations.push(partDuration);
+  }
+  const decisions: number[] = [];
+  bitrates.forEach((bitrate, lastQuality) => {
+    bufferBins.forEach((bufferLevel) => {
+      throughputBins.forEach((throughput) => {
+        decisions.push(
+          solveMpc({
+            bitrates,
+            durations,
+            bufferLevel,
+            latency: options.latency,
+            playbackRate: 1,
+            throughput,
+            lastQuality,
+            isLive: options.isLive,
+          }).quality
+        );
+      });
+    });
+  });
+  return Object.assign({}, options, { decisions });
+}
+
+/**
+ * Returns the level of the table for the given state, values below the first bin use the first bin
+ * @param {FastMpcTable} table
+ * @param {number} lastQuality
+ * @param {number} bufferLevel - s
+ * @param {number} throughput - bps
+ * @return {number}
+ */
+export function lookupFastMpcTable(
+  table: FastMpcTable,
+  lastQuality: number,
+  bufferLevel: number,
+  throughput: number
+): number {
+  const { bufferBins, throughputBins } = table;
+  const levelIndex = Math.min(
+    Math.max(lastQuality, 0),
+    table.bitrates.length - 1
+  );
+  const bufferIndex = getBinIndex(bufferBins, bufferLevel);
+  const throughputIndex = getBinIndex(throughputBins, throughput);
+  return table.decisions[
+    (levelIndex * bufferBins.length + bufferIndex) * throughputBins.length +
+      throughputIndex
+  ];
+}
+
+/**
+ * Returns whether a parsed JSON value is a consistent FastMPC table
+ * @param {unknown} value
+ * @return {boolean}
+ */
+export function isFastMpcTable(value: unknown): value is FastMpcTable {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const table = value as FastMpcTable;
+  const { bitrates, bufferBins, throughputBins, decisions } = table;
+  if (
+    !isAscendingList(bitrates) ||
+    !isAscendingList(bufferBins) ||
+    !isAscendingList(throughputBins) ||
+    !Array.isArray(decisions) ||
+    typeof table.partDuration !== 'number' ||
+    !(table.partDuration > 0) ||
+    !Number.isInteger(table.horizon) ||
+    table.horizon < 1 ||
+    typeof table.latency !== 'number' ||
+    typeof table.isLive !== 'boolean'
+  ) {
+    return false;
+  }
+  return (
+    decisions.length ===
+      bitrates.length * bufferBins.length * throughputBins.length &&
+    decisions.every(
+      (quality) =>
+        Number.isInteger(quality) && quality >= 0 && quality < bitrates.length
+    )
+  );
+}
+
+function getBinIndex(bins: number[], value: number): number {
+  let index = 0;
+  for (let i = 1; i < bins.length; i++) {
+    if (bins[i] <= value) {
+      index = i;
+    }
+  }
+  return index;
+}
+
+function isAscendingList(list: number[]): boolean {
+  return (
+    Array.isArray(list) &&
+    list.length > 0 &&
+    list.every(
+      (value, i) =>
+        typeof value === 'number' &&
+        Number.isFinite(value) &&
+        (i === 0 || value > list[i - 1])
+    )
+  );
+}
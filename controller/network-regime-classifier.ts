@@ -0,0 +1,154 @@
+import type { AbrMetaConfig } from '../abr-config';
+import type {
+  NetworkRegime,
+  NetworkRegimeSignals,
+} from '../types/abr-events';
+
+export interface NetworkRegimeChange extends NetworkRegimeSignals {
+  regime: NetworkRegime;
+  previousRegime: NetworkRegime | null;
+}
+
+/**
+ * Classifies the network as stable, volatile, degrading or recovering from the history of
+ * the bandwidth estimate, stalls and live latency. A new regime is only confirmed after
+ * confirmCount identical classifications and minDwellTime since the last change.
+ */
+export default class NetworkRegimeClassifier {
+  private samples: number[] = [];
+  // whether playback stalled while the matching sample was loading
+  private stalls: boolean[] = [];
+  private stalledSinceSample: boolean = false;
+  private regime: NetworkRegime | null = null;
+  private candidate: NetworkRegime | null = null;
+  private candidateCount: number = 0;
+  // s, player clock of the last regime change
+  private changeTime: number = -Infinity;
+
+  /**
+   * Confirmed regime, null until the window is filled
+   */
+  get currentRegime(): NetworkRegime | null {
+    return this.regime;
+  }
+
+  onStall() {
+    this.stalledSinceSample = true;
+  }
+
+  /**
+   * Accounts a bandwidth estimate and returns the new regime when it is confirmed
+   * @param {number} bandwidth - bps
+   * @param {number} latency - s, 0 when not live
+   * @param {number | null} targetLatency - s
+   * @param {number} time - s, player clock
+   * @param {AbrMetaConfig} config
+   * @return {NetworkRegimeChange | null}
+   */
+  addSample(
+    bandwidth: number,
+    latency: number,
+    targetLatency: number | null,
+    time: number,
+    config: AbrMetaConfig
+  ): NetworkRegimeChange | null {
+    if (!Number.isFinite(bandwidth) || bandwidth <= 0) {
+      return null;
+    }
+    const { samples, stalls } = this;
+    samples.push(bandwidth);
+    stalls.push(this.stalledSinceSample);
+    this.stalledSinceSample = false;
+    while (samples.length > config.windowSize) {
+      samples.shift();
+      stalls.shift();
+    }
+    if (samples.length < config.windowSize) {
+      return null;
+    }
+
+    const signals = this.getSignals(latency);
+    const regime = classify(signals, targetLatency, config);
+    if (regime === this.regime) {
+      this.candidate = null;
+      this.candidateCount = 0;
+      return null;
+    }
+    if (regime === this.candidate) {
+      this.candidateCount++;
+    } else {
+      this.candidate = regime;
+      this.candidateCount = 1;
+    }
+    if (
+      this.candidateCount < config.confirmCount ||
+      time - this.changeTime < config.minDwellTime
+    ) {
+      return null;
+    }
+    const previousRegime = this.regime;
+    this.regime = regime;
+    this.candidate = null;
+    this.candidateCount = 0;
+    this.changeTime = time;
+    return Object.assign(signals, { regime, previousRegime });
+  }
+
+  reset() {
+    this.samples = [];
+    this.stalls = [];
+    this.stalledSinceSample = false;
+    this.regime = null;
+    this.candidate = null;
+    this.candidateCount = 0;
+    this.changeTime = -Infinity;
+  }
+
+  private getSignals(latency: number): NetworkRegimeSignals {
+    const { samples } = this;
+    const count = samples.length;
+    const mean = samples.reduce((sum, sample) => sum + sample, 0) / count;
+    const variance =
+      samples.reduce((sum, sample) => sum + Math.pow(sample - mean, 2), 0) /
+      count;
+    const half = Math.floor(count / 2);
+    const olderMean =
+      samples.slice(0, half).reduce((sum, sample) => sum + sample, 0) / half;
+    const newerMean =
+      samples.slice(count - half).reduce((sum, sample) => sum + sample, 0) /
+      half;
+    return {
+      throughputMean: mean,
+      throughputCv: Math.sqrt(variance) / mean,
+      throughputTrend: (newerMean - olderMean) / olderMean,
+      stallCount: this.stalls.filter((stalled) => stalled).length,
+      latency,
+    };
+  }
+}
+
+function classify(
+  signals: NetworkRegimeSignals,
+  targetLatency: number | null,
+  config: AbrMetaConfig
+): NetworkRegime {
+  const { latencyTolerance, volatileThreshold, trendThreshold } = config;
+  const latencyDrift =
+    targetLatency !== null &&
+    signals.latency > 0 &&
+    !isNaN(latencyTolerance) &&
+    signals.latency - targetLatency > latencyTolerance;
+  if (signals.stallCount > 0 || latencyDrift) {
+    return 'degrading';
+  }
+  if (signals.throughputCv >= volatileThreshold) {
+    return 'volatile';
+  }
+  if (signals.throughputTrend <= -trendThreshold) {
+    return 'degrading';
+  }
+  if (signals.throughputTrend >= trendThreshold) {
+    return 'recovering';
+  }
+  return 'stable';
+}
@@ -0,0 +1,272 @@
+// Inference of a Pensieve-style actor network in plain TypeScript, see https://doi.org/10.1145/3098822.3098843
+
+export type PensieveActivation =
+  | 'linear'
+  | 'relu'
+  | 'tanh'
+  | 'sigmoid'
+  | 'softmax';
+
+export interface PensieveDenseLayer {
+  type: 'dense';
+  // [output][input], the input of the layer is flattened
+  weights: number[][];
+  bias: number[];
+  activation?: PensieveActivation;
+}
+
+export interface PensieveConv1dLayer {
+  type: 'conv1d';
+  // [filter][input channel][kernel], valid padding and a stride of 1
+  weights: number[][][];
+  bias: number[];
+  activation?: PensieveActivation;
+}
+
+export type PensieveLayer = PensieveDenseLayer | PensieveConv1dLayer;
+
+/**
+ * Inputs of the network, in the units the rule measures them:
+ * - lastBitrate: bitrate (bps) of the current level
+ * - bitrates: bitrates (bps) of the last buffered parts (or segments)
+ * - bufferLevel: forward buffer (s)
+ * - throughputs: throughput (bps) of the last buffered parts
+ * - downloadTimes: download time (s) of the last buffered parts
+ * - nextPartSizes: estimated size (bytes) of the next part at each level
+ * - latency: live latency (s), 0 for VOD
+ * - playbackRate: current playback rate
+ * Histories hold historyLength values, oldest first, zero-filled before the first parts.
+ */
+export type PensieveFeature =
+  | 'lastBitrate'
+  | 'bitrates'
+  | 'bufferLevel'
+  | 'throughputs'
+  | 'downloadTimes'
+  | 'nextPartSizes'
+  | 'latency'
+  | 'playbackRate';
+
+export type PensieveFeatures = Record<PensieveFeature, number[]>;
+
+export interface PensieveBranch {
+  feature: PensieveFeature;
+  // factor normalizing the feature before the first layer, 1 by default
+  scale?: number;
+  // layers applied to the feature, none to feed it to the head as is
+  layers: PensieveLayer[];
+}
+
+export interface PensieveModel {
+  // length of the feature histories
+  historyLength: number;
+  // outputs of the branches are flattened and concatenated, in order, into the head input
+  branches: PensieveBranch[];
+  // layers mapping the concatenated branches to one score per level, lowest first
+  head: PensieveLayer[];
+}
+
+// channels x samples, dense layers output a single channel
+type Tensor = number[][];
+
+const features: PensieveFeature[] = [
+  'lastBitrate',
+  'bitrates',
+  'bufferLevel',
+  'throughputs',
+  'downloadTimes',
+  'nextPartSizes',
+  'latency',
+  'playbackRate',
+];
+
+const activations: PensieveActivation[] = [
+  'linear',
+  'relu',
+  'tanh',
+  'sigmoid',
+  'softmax',
+];
+
+/**
+ * Runs the actor network on the features
+ * @param {PensieveModel} model
+ * @param {PensieveFeatures} input
+ * @return {number[]} scores (action probabilities for a softmax head), one per level
+ * @throws when the layer shapes do not match the features
+ */
+export function runPensieveModel(
+  model: PensieveModel,
+  input: PensieveFeatures
+): number[] {
+  const headInput = model.branches.reduce((values: number[], branch) => {
+    const scale = branch.scale ?? 1;
+    const tensor = [input[branch.feature].map((value) => value * scale)];
+    return values.concat(flatten(runLayers(branch.layers, tensor)));
+  }, []);
+  return flatten(runLayers(model.head, [headInput]));
+}
+
+function runLayers(layers: PensieveLayer[], input: Tensor): Tensor {
+  return layers.reduce(
+    (tensor, layer) =>
+      activate(
+        layer.type === 'dense' ? dense(layer, tensor) : conv1d(layer, tensor),
+        layer.activation || 'linear'
+      ),
+    input
+  );
+}
+
+function dense(layer: PensieveDenseLayer, input: Tensor): Tensor {
+  const values = flatten(input);
+  return [
+    layer.weights.map((row, i) => {
+      if (row.length !== values.length) {
+        throw new Error(
+          `Dense layer expects ${row.length} inputs, got ${values.length}`
+        );
+      }
+      return row.reduce(
+        (sum, weight, j) => sum + weight * values[j],
+        layer.bias[i]
+      );
+    }),
+  ];
+}
+
+function conv1d(layer: PensieveConv1dLayer, input: Tensor): Tensor {
+  return layer.weights.map((filter, f) => {
+    if (filter.length !== input.length) {
+      throw new Error(
+        `Conv1d layer expects ${filter.length} channels, got ${input.length}`
+      );
+    }
+    const kernelSize = filter[0].length;
+    const outputLength = input[0].length - kernelSize + 1;
+    if (outputLength < 1) {
+      throw new Error(
+        `Conv1d kernel of ${kernelSize} exceeds the ${input[0].length} input samples`
+      );
+    }
+    const output: number[] = [];
+    for (let t = 0; t < outputLength; t++) {
+      let sum = layer.bias[f];
+      for (let c = 0; c < filter.length; c++) {
+        for (let k = 0; k < kernelSize; k++) {
+          sum += filter[c][k] * input[c][t + k];
+        }
+      }
+      output.push(sum);
+    }
+    return output;
+  });
+}
+
+function activate(tensor: Tensor, activation: PensieveActivation): Tensor {
+  switch (activation) {
+    case 'relu':
+      return tensor.map((channel) => channel.map((x) => Math.max(0, x)));
+    case 'tanh':
+      return tensor.map((channel) => channel.map(Math.tanh));
+    case 'sigmoid':
+      return tensor.map((channel) =>
+        channel.map((x) => 1 / (1 + Math.exp(-x)))
+      );
+    case 'softmax':
+      return tensor.map((channel) => {
+        const max = Math.max(...channel);
+        const exps = channel.map((x) => Math.exp(x - max));
+        const sum = exps.reduce((total, x) => total + x, 0);
+        return exps.map((x) => x / sum);
+      });
+    default:
+      return tensor;
+  }
+}
+
+function flatten(tensor: Tensor): number[] {
+  return tensor.reduce(
+    (values: number[], channel) => values.concat(channel),
+    []
+  );
+}
+
+/**
+ * Checks the structure of a model parsed from JSON. Layer shapes are checked against the features at inference.
+ * @param {unknown} value
+ * @return {boolean}
+ */
+export function isPensieveModel(value: unknown): value is PensieveModel {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const model = value as PensieveModel;
+  return (
+    Number.isInteger(model.historyLength) &&
+    model.historyLength >= 1 &&
+    Array.isArray(model.branches) &&
+    model.branches.length > 0 &&
+    model.branches.every(
+      (branch) =>
+        !!branch &&
+        features.indexOf(branch.feature) !== -1 &&
+        (branch.scale === undefined || Number.isFinite(branch.scale)) &&
+        isLayerList(branch.layers)
+    ) &&
+    isLayerList(model.head) &&
+    model.head.length > 0
+  );
+}
+
+function isLayerList(layers: unknown): layers is PensieveLayer[] {
+  return Array.isArray(layers) && layers.every(isLayer);
+}
+
+function isLayer(value: unknown): value is PensieveLayer {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const layer = value as PensieveLayer;
+  if (
+    (layer.activation !== undefined &&
+      activations.indexOf(layer.activation) === -1) ||
+    !isNumberList(layer.bias) ||
+    !Array.isArray(layer.weights) ||
+    layer.weights.length !== layer.bias.length ||
+    !layer.weights.length
+  ) {
+    return false;
+  }
+  if (layer.type === 'dense') {
+    const inputs = layer.weights[0].length;
+    return layer.weights.every(
+      (row) => isNumberList(row) && row.length === inputs && inputs > 0
+    );
+  }
+  if (layer.type === 'conv1d') {
+    const filters: unknown[] = layer.weights;
+    const channels = layer.weights[0].length;
+    const kernelSize = layer.weights[0][0]?.length;
+    return filters.every(
+      (filter) =>
+        Array.isArray(filter) &&
+        filter.length === channels &&
+        channels > 0 &&
+        filter.every(
+          (kernel) =>
+            isNumberList(kernel) &&
+            kernel.length === kernelSize &&
+            kernelSize > 0
+        )
+    );
+  }
+  return false;
+}
+
+function isNumberList(value: unknown): value is number[] {
+  return (
+    Array.isArray(value) &&
+    value.every((item) => typeof item === 'number' && Number.isFinite(item))
+  );
+}
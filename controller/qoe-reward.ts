@@ -0,0 +1,74 @@
+import LoLpQoeEvaluator from './LoLpQoeEvaluator';
+import type { Fragment, Part } from '../loader/fragment';
+import type { PlayerLevel } from '../types/player-context';
+
+/**
+ * Reward of the learning rules for a buffered part (or segment): its LoL+ QoE, switch penalty
+ * included, divided by the bitrate reward of the top level so that rewards compare across ladders
+ * and part durations
+ */
+export default class QoeReward {
+  private qoeEvaluator: LoLpQoeEvaluator = new LoLpQoeEvaluator();
+  // duration (s) and bitrate range (kbps) the evaluator weights were set up for
+  private weightsKey: string = '';
+  // kbps, bitrate of the last rewarded part for the switch penalty
+  private lastBitrateKbps: number | null = null;
+
+  /**
+   * @param {PlayerLevel[]} levels
+   * @param {number} level - level of the buffered part
+   * @param {number} duration - s
+   * @param {number} rebufferTime - s
+   * @param {number} latency - s, 0 when not live
+   * @param {number} playbackRate
+   * @return {number}
+   */
+  getReward(
+    levels: PlayerLevel[],
+    level: number,
+    duration: number,
+    rebufferTime: number,
+    latency: number,
+    playbackRate: number
+  ): number {
+    const bitrates = levels.map(({ bitrate }) => bitrate / 1000);
+    const minBitrateKbps = Math.min(...bitrates);
+    const maxBitrateKbps = Math.max(...bitrates);
+    const weightsKey = `${duration}:${minBitrateKbps}:${maxBitrateKbps}`;
+    if (weightsKey !== this.weightsKey) {
+      this.weightsKey = weightsKey;
+      this.qoeEvaluator.setupPerSegmentQoe(
+        duration,
+        maxBitrateKbps,
+        minBitrateKbps
+      );
+    }
+    const bitrateKbps = bitrates[level];
+    const qoe = this.qoeEvaluator.calculateSingleUseQoe(
+      bitrateKbps,
+      rebufferTime,
+      latency,
+      playbackRate,
+      this.lastBitrateKbps
+    );
+    this.lastBitrateKbps = bitrateKbps;
+    return qoe / (duration * maxBitrateKbps);
+  }
+
+  /**
+   * Forgets the last bitrate so that no switch penalty is applied to the next part
+   */
+  resetLastBitrate() {
+    this.lastBitrateKbps = null;
+  }
+}
+
+/**
+ * Key matching the buffered part (or segment) with the decision it was loaded for
+ * @param {Fragment} frag
+ * @param {Part | null} part
+ * @return {string}
+ */
+export function getRewardKey(frag: Fragment, part: Part | null): string {
+  return `${frag.sn}:${part ? part.index : -1}`;
+}
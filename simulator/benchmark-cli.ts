@@ -0,0 +1,114 @@
+import { readdirSync, readFileSync, writeFileSync } from 'fs';
+import { basename, extname, join } from 'path';
+import { parseTrace } from './traces';
+import {
+  BENCHMARK_ABR_RULES,
+  formatBenchmarkCsv,
+  formatBenchmarkTable,
+  runBenchmark,
+} from './benchmark';
+import type { SimulationPlaylistType } from './simulator';
+import type { NetworkTrace, TraceFormat } from './traces';
+
+const USAGE = `Usage: benchmark-cli --traces <dir> [options]
+
+  --traces <dir>            directory of trace files (.json files are read as scenarios)
+  --format <format>         mahimahi (default), fcc or hsdpa
+  --rtt <ms>                request round trip time of the traces, 0 by default
+  --latencies <s,...>       target latencies, 1,1.5,2 by default
+  --rules <name,...>        ${BENCHMARK_ABR_RULES.join(',')} by default
+  --bitrates <bps,...>      level ladder, 200000,600000,1000000 by default
+  --segment-duration <s>    2 by default
+  --parts <count>           parts per segment, 4 by default
+  --playlist <type>         live (default), event or vod
+  --duration <s>            media time played per run, the trace duration by default
+  --csv <file>              write every run as CSV
+  --summary-csv <file>      write the per rule averages as CSV`;
+
+type CliOptions = { [name: string]: string };
+
+function parseArgs(args: string[]): CliOptions {
+  const options: CliOptions = {};
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith('--') || i + 1 >= args.length) {
+      throw new Error(`Unexpected argument "${arg}"`);
+    }
+    options[arg.slice(2)] = args[++i];
+  }
+  return options;
+}
+
+function parseList(value: string | undefined, fallback: number[]): number[] {
+  if (value === undefined) {
+    return fallback;
+  }
+  return value.split(',').map((item) => {
+    const number = parseFloat(item);
+    if (!Number.isFinite(number)) {
+      throw new Error(`Invalid number "${item}"`);
+    }
+    return number;
+  });
+}
+
+function loadTraces(
+  directory: string,
+  format: TraceFormat,
+  rtt: number
+): NetworkTrace[] {
+  return readdirSync(directory)
+    .filter((file) => !file.startsWith('.'))
+    .sort()
+    .map((file) => {
+      const extension = extname(file);
+      return parseTrace(
+        readFileSync(join(directory, file), 'utf8'),
+        extension === '.json' ? 'scenario' : format,
+        { name: basename(file, extension), rtt }
+      );
+    });
+}
+
+function main(args: string[]) {
+  const options = parseArgs(args);
+  if (!options.traces) {
+    console.log(USAGE);
+    return;
+  }
+  const traces = loadTraces(
+    options.traces,
+    (options.format || 'mahimahi') as TraceFormat,
+    parseFloat(options.rtt || '0')
+  );
+  if (!traces.length) {
+    throw new Error(`No trace in ${options.traces}`);
+  }
+  const result = runBenchmark({
+    traces,
+    targetLatencies: parseList(options.latencies, [1, 1.5, 2]),
+    abrRules: options.rules ? options.rules.split(',') : BENCHMARK_ABR_RULES,
+    bitrates: parseList(options.bitrates, [200000, 600000, 1000000]),
+    segmentDuration: parseList(options['segment-duration'], [2])[0],
+    partsPerSegment: parseList(options.parts, [4])[0],
+    playlistType: (options.playlist || 'live') as SimulationPlaylistType,
+    duration: options.duration ? parseFloat(options.duration) : undefined,
+  });
+  console.log(formatBenchmarkTable(result.summary));
+  console.log();
+  console.log(formatBenchmarkTable(result.runs));
+  if (options.csv) {
+    writeFileSync(options.csv, formatBenchmarkCsv(result.runs));
+  }
+  if (options['summary-csv']) {
+    writeFileSync(options['summary-csv'], formatBenchmarkCsv(result.summary));
+  }
+}
+
+try {
+  main(process.argv.slice(2));
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  console.error(USAGE);
+  process.exitCode = 1;
+}
@@ -0,0 +1,244 @@
+import './node-globals';
+import LoLpQoeSession from '../controller/LoLpQoeSession';
+import AbrRuleRegistry from '../controller/abr-rule-registry';
+import { runSimulation } from './simulator';
+import type { HlsConfig } from '../config';
+import type { LowLatencyABRConfig } from '../abr-config';
+import type { AbrQoeSessionSummary } from '../types/abr-events';
+import type { NetworkTrace } from './traces';
+import type { SimulationPlaylistType, SimulationResult } from './simulator';
+
+// Not a registered rule: AbrController falls back to the hls.js logic (getNextABRAutoLevel)
+export const DEFAULT_ABR_RULE = 'default';
+
+export const BENCHMARK_ABR_RULES = [
+  'LoLp',
+  'L2ARule',
+  'StallionRule',
+  'Llama',
+  'Bola',
+  'MPC',
+  'BBA',
+  'PANDA',
+  'FESTIVE',
+  'Bandit',
+  'QLearning',
+  'SODA',
+  DEFAULT_ABR_RULE,
+];
+
+export type BenchmarkOptions = {
+  traces: NetworkTrace[];
+  // s, one run per trace, rule and target latency
+  targetLatencies: number[];
+  // BENCHMARK_ABR_RULES by default
+  abrRules?: string[];
+  // level ladder (bps), lowest first
+  bitrates: number[];
+  segmentDuration?: number;
+  partsPerSegment?: number;
+  // 'live' by default
+  playlistType?: SimulationPlaylistType;
+  // media time (s) to play, the trace duration by default
+  duration?: number;
+  config?: Partial<HlsConfig & LowLatencyABRConfig>;
+};
+
+export interface BenchmarkRow {
+  abrRule: string;
+  // trace name, or the number of traces averaged in a summary row
+  trace: string;
+  targetLatency: number;
+  // kbps
+  averageBitrate: number;
+  switchCount: number;
+  // s
+  stallDuration: number;
+  averageLatency: number;
+  // mean of |1 - playbackRate|
+  averagePlaybackSpeedDeviation: number;
+  totalQoe: number;
+}
+
+export interface BenchmarkResult {
+  // one row per trace, rule and target latency
+  runs: BenchmarkRow[];
+  // per rule and target latency, averaged over the traces
+  summary: BenchmarkRow[];
+}
+
+const BENCHMARK_COLUMNS: Array<{ key: keyof BenchmarkRow; title: string }> = [
+  { key: 'abrRule', title: 'Rule' },
+  { key: 'trace', title: 'Trace' },
+  { key: 'targetLatency', title: 'Target latency (s)' },
+  { key: 'averageBitrate', title: 'Avg bitrate (kbps)' },
+  { key: 'switchCount', title: 'Switches' },
+  { key: 'stallDuration', title: 'Stall (s)' },
+  { key: 'averageLatency', title: 'Avg latency (s)' },
+  { key: 'averagePlaybackSpeedDeviation', title: 'Speed deviation' },
+  { key: 'totalQoe', title: 'QoE' },
+];
+
+/**
+ * Runs every rule over every trace and target latency.
+ * Throws when a rule is neither registered nor DEFAULT_ABR_RULE, rather than benchmarking the
+ * fallback logic under its name.
+ * @param {BenchmarkOptions} options
+ * @return {BenchmarkResult}
+ */
+export function runBenchmark(options: BenchmarkOptions): BenchmarkResult {
+  const { traces, targetLatencies, abrRules = BENCHMARK_ABR_RULES } = options;
+  const registry = new AbrRuleRegistry(options.config?.abrRules);
+  const unknownRules = abrRules.filter(
+    (abrRule) => abrRule !== DEFAULT_ABR_RULE && !registry.has(abrRule)
+  );
+  if (unknownRules.length) {
+    const knownRules = registry.names.concat(DEFAULT_ABR_RULE).join(', ');
+    throw new Error(
+      `Unknown ABR rule "${unknownRules.join('", "')}", expected one of ${knownRules}`
+    );
+  }
+  const runs: BenchmarkRow[] = [];
+  const summary: BenchmarkRow[] = [];
+  abrRules.forEach((abrRule) => {
+    targetLatencies.forEach((targetLatency) => {
+      const ruleRuns = traces.map((trace) => {
+        const result = runSimulation({
+          trace,
+          bitrates: options.bitrates,
+          segmentDuration: options.segmentDuration,
+          partsPerSegment: options.partsPerSegment,
+          playlistType: options.playlistType,
+          targetLatency,
+          duration: options.duration,
+          abrRule,
+          config: options.config,
+        });
+        const qoe = evaluateQoe(result, options.bitrates);
+        return toBenchmarkRow(abrRule, targetLatency, result, qoe);
+      });
+      runs.push(...ruleRuns);
+      summary.push(averageRows(abrRule, targetLatency, ruleRuns));
+    });
+  });
+  return { runs, summary };
+}
+
+/**
+ * Accounts the segments of a run with the LoL+ QoE weights, so that rules not reporting
+ * QoE themselves (L2A, Stallion, Llama, default) are scored the same way as LoL+
+ * @param {SimulationResult} result
+ * @param {number[]} bitrates - level ladder (bps) the weights are derived from
+ * @return {AbrQoeSessionSummary}
+ */
+export function evaluateQoe(
+  result: SimulationResult,
+  bitrates: number[]
+): AbrQoeSessionSummary {
+  const session = new LoLpQoeSession();
+  const minBitrateKbps = Math.min(...bitrates) / 1000;
+  const maxBitrateKbps = Math.max(...bitrates) / 1000;
+  result.segments.forEach((segment) => {
+    session.logSegment({
+      sn: segment.sn,
+      cc: 0,
+      level: segment.level,
+      duration: segment.duration,
+      bitrateKbps: segment.bitrate / 1000,
+      minBitrateKbps,
+      maxBitrateKbps,
+      rebufferTime: segment.stallDuration,
+      latency: segment.latency,
+      playbackRate: segment.playbackRate,
+    });
+  });
+  return session.getSummary();
+}
+
+/**
+ * Formats rows as an aligned text table
+ * @param {BenchmarkRow[]} rows
+ * @return {string}
+ */
+export function formatBenchmarkTable(rows: BenchmarkRow[]): string {
+  const cells = [BENCHMARK_COLUMNS.map((column) => column.title)].concat(
+    rows.map((row) =>
+      BENCHMARK_COLUMNS.map((column) => formatValue(row[column.key]))
+    )
+  );
+  const widths = BENCHMARK_COLUMNS.map((column, i) =>
+    Math.max(...cells.map((line) => line[i].length))
+  );
+  const lines = cells.map((line) =>
+    line.map((cell, i) => cell.padEnd(widths[i])).join(' | ')
+  );
+  lines.splice(1, 0, widths.map((width) => '-'.repeat(width)).join('-|-'));
+  return lines.join('\n');
+}
+
+/**
+ * Formats rows as CSV, one column per BenchmarkRow field
+ * @param {BenchmarkRow[]} rows
+ * @return {string}
+ */
+export function formatBenchmarkCsv(rows: BenchmarkRow[]): string {
+  const lines = [BENCHMARK_COLUMNS.map((column) => column.key).join(',')];
+  rows.forEach((row) => {
+    lines.push(
+      BENCHMARK_COLUMNS.map((column) => {
+        const value = row[column.key];
+        return typeof value === 'string'
+          ? `"${value.replace(/"/g, '""')}"`
+          : String(value);
+      }).join(',')
+    );
+  });
+  return lines.join('\n') + '\n';
+}
+
+function toBenchmarkRow(
+  abrRule: string,
+  targetLatency: number,
+  result: SimulationResult,
+  qoe: AbrQoeSessionSummary
+): BenchmarkRow {
+  return {
+    abrRule,
+    trace: result.trace,
+    targetLatency,
+    averageBitrate: result.averageBitrate,
+    switchCount: result.switchCount,
+    stallDuration: result.stallDuration,
+    averageLatency: result.averageLatency,
+    averagePlaybackSpeedDeviation: qoe.averagePlaybackSpeedDeviation,
+    totalQoe: qoe.totalQoe,
+  };
+}
+
+function averageRows(
+  abrRule: string,
+  targetLatency: number,
+  rows: BenchmarkRow[]
+): BenchmarkRow {
+  const count = rows.length || 1;
+  const mean = (key: keyof BenchmarkRow) =>
+    rows.reduce((sum, row) => sum + (row[key] as number), 0) / count;
+  return {
+    abrRule,
+    trace: `${rows.length} traces`,
+    targetLatency,
+    averageBitrate: mean('averageBitrate'),
+    switchCount: mean('switchCount'),
+    stallDuration: mean('stallDuration'),
+    averageLatency: mean('averageLatency'),
+    averagePlaybackSpeedDeviation: mean('averagePlaybackSpeedDeviation'),
+    totalQoe: mean('totalQoe'),
+  };
+}
+
+function formatValue(value: string | number): string {
+  if (typeof value === 'string') {
+    return value;
+  }
+  return Number.isInteger(value) ? String(value) : value.toFixed(2);
+}
@@ -0,0 +1,96 @@
+import { writeFileSync } from 'fs';
+import { buildFastMpcTable } from '../controller/mpc-solver';
+
+const USAGE = `Usage: fastmpc-cli --bitrates <bps,...> [options]
+
+  --bitrates <bps,...>        level ladder, lowest first
+  --part-duration <s>         duration of every lookahead step, 0.5 by default
+  --horizon <count>           lookahead steps, 5 by default
+  --latency <s>               latency the table is solved at, 1.5 by default
+  --playlist <type>           live (default) or vod
+  --buffer-bins <s,...>       lower edges of the buffer bins, 0 to 3 s by 0.1 s by default
+  --throughput-bins <bps,...> lower edges of the throughput bins, 32 geometric bins from half
+                              the lowest to twice the highest bitrate by default
+  --out <file>                write the table to a file instead of stdout`;
+
+type CliOptions = { [name: string]: string };
+
+function parseArgs(args: string[]): CliOptions {
+  const options: CliOptions = {};
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith('--') || i + 1 >= args.length) {
+      throw new Error(`Unexpected argument "${arg}"`);
+    }
+    options[arg.slice(2)] = args[++i];
+  }
+  return options;
+}
+
+function parseList(value: string | undefined, fallback: number[]): number[] {
+  if (value === undefined) {
+    return fallback;
+  }
+  return value.split(',').map((item) => {
+    const number = parseFloat(item);
+    if (!Number.isFinite(number)) {
+      throw new Error(`Invalid number "${item}"`);
+    }
+    return number;
+  });
+}
+
+function getDefaultBufferBins(): number[] {
+  const bins: number[] = [];
+  for (let i = 0; i <= 30; i++) {
+    bins.push(i / 10);
+  }
+  return bins;
+}
+
+function getDefaultThroughputBins(bitrates: number[]): number[] {
+  const count = 32;
+  const min = bitrates[0] / 2;
+  const max = bitrates[bitrates.length - 1] * 2;
+  const ratio = Math.pow(max / min, 1 / (count - 1));
+  const bins: number[] = [];
+  for (let i = 0; i < count; i++) {
+    bins.push(Math.round(min * Math.pow(ratio, i)));
+  }
+  return bins;
+}
+
+function main(args: string[]) {
+  const options = parseArgs(args);
+  if (!options.bitrates) {
+    console.log(USAGE);
+    return;
+  }
+  const bitrates = parseList(options.bitrates, []);
+  const table = buildFastMpcTable({
+    bitrates,
+    partDuration: parseList(options['part-duration'], [0.5])[0],
+    horizon: parseList(options.horizon, [5])[0],
+    latency: parseList(options.latency, [1.5])[0],
+    isLive: (options.playlist || 'live') === 'live',
+    bufferBins: parseList(options['buffer-bins'], getDefaultBufferBins()),
+    throughputBins: parseList(
+      options['throughput-bins'],
+      getDefaultThroughputBins(bitrates)
+    ),
+  });
+  const json = JSON.stringify(table);
+  if (options.out) {
+    writeFileSync(options.out, json);
+  } else {
+    console.log(json);
+  }
+}
+
+try {
+  main(process.argv.slice(2));
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  console.error(USAGE);
+  process.exitCode = 1;
+}
@@ -0,0 +1,12 @@
+// Imported first by the simulator modules: the hls.js modules they import read self when they are
+// evaluated (e.g. the transmuxer) or when they run (e.g. the AbrController abandon timer), and Node
+// only exposes globalThis
+if (typeof self === 'undefined') {
+  Object.defineProperty(globalThis, 'self', {
+    value: globalThis,
+    configurable: true,
+    writable: true,
+  });
+}
+
+export {};
@@ -0,0 +1,88 @@
+import './node-globals';
+import { EventEmitter } from 'eventemitter3';
+import AbrController from '../controller/abr-controller';
+import SimulatedPlayerContext from './simulated-player-context';
+import { hlsDefaultConfig, mergeConfig } from '../config';
+import type Hls from '../hls';
+import type { HlsConfig } from '../config';
+import type { HlsEventEmitter, HlsListeners } from '../events';
+import type { Level } from '../types/level';
+import type { LowLatencyABRConfig } from '../abr-config';
+import type SimulatedMedia from './simulated-media';
+
+/**
+ * The subset of the Hls API read by AbrController and the rules, driven by the simulator clock
+ */
+export default class SimulatedHls {
+  public readonly config: HlsConfig;
+  public readonly levels: Level[];
+  public readonly media: SimulatedMedia;
+  public readonly abrController: AbrController;
+  // what the controller and the rules see, on the simulator clock
+  public readonly player: SimulatedPlayerContext;
+  public readonly isLive: boolean;
+  public latency: number = 0;
+  public targetLatency: number | null;
+  public maxLatency: number = 0;
+  public autoLevelEnabled: boolean = true;
+  public minAutoLevel: number = 0;
+  public maxAutoLevel: number;
+  // level of the last loaded segment, standing in for the level being played
+  public currentLevel: number = -1;
+  // set by the abandon rules for the next fragment
+  public nextLoadLevel: number = -1;
+  private emitter: HlsEventEmitter = new EventEmitter();
+
+  constructor(
+    levels: Level[],
+    media: SimulatedMedia,
+    isLive: boolean,
+    targetLatency: number | null,
+    userConfig: Partial<HlsConfig & LowLatencyABRConfig>
+  ) {
+    this.config = mergeConfig(hlsDefaultConfig, userConfig);
+    this.levels = levels;
+    this.media = media;
+    this.isLive = isLive;
+    this.targetLatency = targetLatency;
+    this.maxLatency = targetLatency !== null ? targetLatency * 2 : 0;
+    this.maxAutoLevel = levels.length - 1;
+    this.player = new SimulatedPlayerContext(this as unknown as Hls);
+    this.abrController = new AbrController(
+      this as unknown as Hls,
+      this.player
+    );
+  }
+
+  get bandwidthEstimate(): number {
+    return this.abrController.bwEstimator.getEstimate();
+  }
+
+  on<E extends keyof HlsListeners, Context = undefined>(
+    event: E,
+    listener: HlsListeners[E],
+    context: Context = this as any
+  ) {
+    this.emitter.on(event, listener, context);
+  }
+
+  off<E extends keyof HlsListeners, Context = undefined>(
+    event: E,
+    listener?: HlsListeners[E],
+    context: Context = this as any
+  ) {
+    this.emitter.off(event, listener, context);
+  }
+
+  trigger<E extends keyof HlsListeners>(
+    event: E,
+    eventObject: Parameters<HlsListeners[E]>[1]
+  ): boolean {
+    return this.emitter.emit(event, event, eventObject);
+  }
+
+  destroy() {
+    this.abrController.destroy();
+    this.emitter.removeAllListeners();
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * TimeRanges over the simulated source buffer
+ */
+export class SimulatedTimeRanges {
+  private ranges: Array<[number, number]> = [];
+
+  get length(): number {
+    return this.ranges.length;
+  }
+
+  start(index: number): number {
+    return this.ranges[index][0];
+  }
+
+  end(index: number): number {
+    return this.ranges[index][1];
+  }
+
+  /**
+   * Adds a range, merging it with the ranges it touches
+   * @param {number} start
+   * @param {number} end
+   */
+  add(start: number, end: number) {
+    const ranges = this.ranges.concat([[start, end]]);
+    ranges.sort((a, b) => a[0] - b[0]);
+    const merged: Array<[number, number]> = [];
+    ranges.forEach((range) => {
+      const last = merged[merged.length - 1];
+      if (last && range[0] <= last[1] + 1e-6) {
+        last[1] = Math.max(last[1], range[1]);
+      } else {
+        merged.push([range[0], range[1]]);
+      }
+    });
+    this.ranges = merged;
+  }
+}
+
+/**
+ * The subset of HTMLMediaElement read by AbrController and the rules
+ */
+export default class SimulatedMedia {
+  public currentTime: number = 0;
+  public playbackRate: number = 1;
+  public paused: boolean = true;
+  public seeking: boolean = false;
+  public readyState: number = 0;
+  public readonly buffered: SimulatedTimeRanges = new SimulatedTimeRanges();
+
+  /**
+   * Returns the end of the range playback is in, or currentTime when nothing is buffered there
+   * @return {number}
+   */
+  get bufferEnd(): number {
+    const { buffered, currentTime } = this;
+    for (let i = 0; i < buffered.length; i++) {
+      if (
+        currentTime >= buffered.start(i) - 1e-6 &&
+        currentTime <= buffered.end(i)
+      ) {
+        return buffered.end(i);
+      }
+    }
+    return currentTime;
+  }
+}
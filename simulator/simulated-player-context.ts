@@ -0,0 +1,41 @@
+import HlsPlayerContext from '../controller/hls-player-context';
+import InMemoryPlayerContext from '../utils/in-memory-player-context';
+import type Hls from '../hls';
+
+/**
+ * HlsPlayerContext of the simulated hls instance, with the clock and the intervals of an
+ * InMemoryPlayerContext: time only moves, and intervals only run, when the simulator advances it
+ */
+export default class SimulatedPlayerContext extends HlsPlayerContext {
+  // only its clock and intervals are used
+  private readonly clock: InMemoryPlayerContext = new InMemoryPlayerContext();
+  // called with the clock (ms) before every interval runs, to play the simulation up to it
+  public onBeforeInterval: ((time: number) => void) | null = null;
+
+  constructor(hls: Hls) {
+    super(hls);
+  }
+
+  now(): number {
+    return this.clock.now();
+  }
+
+  setInterval(callback: () => void, delay: number): number {
+    return this.clock.setInterval(() => {
+      this.onBeforeInterval?.(this.clock.now());
+      callback();
+    }, delay);
+  }
+
+  clearInterval(id: number | undefined) {
+    this.clock.clearInterval(id);
+  }
+
+  /**
+   * Moves the clock forward to a time, running every interval that falls due on the way
+   * @param {number} time - ms
+   */
+  advanceTo(time: number) {
+    this.clock.advance(Math.max(0, time - this.clock.now()));
+  }
+}
@@ -0,0 +1,539 @@
+import './node-globals';
+import { Events } from '../events';
+import { ErrorDetails, ErrorTypes } from '../errors';
+import { Fragment, Part } from '../loader/fragment';
+import { LevelDetails } from '../loader/level-details';
+import { Level } from '../types/level';
+import { PlaylistLevelType } from '../types/loader';
+import { AttrList } from '../utils/attr-list';
+import { AbrEvents } from '../abr-events';
+import SimulatedHls from './simulated-hls';
+import SimulatedMedia from './simulated-media';
+import { NetworkModel } from './traces';
+import type { HlsConfig } from '../config';
+import type { LowLatencyABRConfig } from '../abr-config';
+import type { AbrEventEmitter } from '../abr-events';
+import type {
+  AbrDecisionData,
+  AbrQoeData,
+  AbrQoeSessionSummary,
+} from '../types/abr-events';
+import type { NetworkTrace } from './traces';
+
+export type SimulationPlaylistType = 'live' | 'event' | 'vod';
+
+export type SimulationOptions = {
+  trace: NetworkTrace;
+  // level ladder (bps), lowest first
+  bitrates: number[];
+  // s, 2 by default
+  segmentDuration?: number;
+  // LL-HLS parts per segment, each loaded on its own request after its own decision. 4 by default
+  partsPerSegment?: number;
+  // 'live' by default
+  playlistType?: SimulationPlaylistType;
+  // live and event only: latency (s) playback starts at, abrCatchUp.targetLatency by default
+  targetLatency?: number;
+  // media time (s) to play, the trace duration by default
+  duration?: number;
+  // ABR rule name, the config abrRule by default
+  abrRule?: string;
+  // hls config overrides, including the low-latency ABR sections
+  config?: Partial<HlsConfig & LowLatencyABRConfig>;
+};
+
+export interface SimulatedSegment {
+  sn: number;
+  level: number;
+  // bps
+  bitrate: number;
+  // s
+  duration: number;
+  // wall clock (s) of the first part request and of the last byte
+  requestTime: number;
+  loadedTime: number;
+  // bps, actual throughput of the parts, from their first to their last byte
+  throughput: number;
+  // bps, estimate after the segment was buffered
+  bandwidthEstimate: number;
+  // s, after the segment was appended
+  bufferLevel: number;
+  latency: number;
+  playbackRate: number;
+  // rebuffering (s) while the segment was loading
+  stallDuration: number;
+  // ABR_DECISION that selected the level, null when the first segment is loaded at the start level
+  decision: AbrDecisionData | null;
+  // QOE_UPDATED computed for the segment, when the rule reported one
+  qoe: AbrQoeData | null;
+}
+
+export interface SimulationResult {
+  abrRule: string;
+  trace: string;
+  playlistType: SimulationPlaylistType;
+  segments: SimulatedSegment[];
+  // s from the first request to the start of playback
+  startupDelay: number;
+  stallCount: number;
+  stallDuration: number;
+  // kbps
+  averageBitrate: number;
+  switchCount: number;
+  averageLatency: number;
+  // session QoE accounted by AbrController, see AbrEvents.QOE_SESSION_SUMMARY
+  qoe: AbrQoeSessionSummary;
+}
+
+/**
+ * Plays a stream over a network trace in virtual time, driving AbrController and the active rule
+ * through the hls events they listen to. Runs in Node: media, MediaSource and network are simulated.
+ */
+export default class AbrSimulator {
+  private readonly network: NetworkModel;
+  private readonly hls: SimulatedHls;
+  private readonly media: SimulatedMedia;
+  private readonly segmentDuration: number;
+  private readonly partsPerSegment: number;
+  private readonly playlistType: SimulationPlaylistType;
+  // media time produced at wall clock 0 (live and event)
+  private readonly liveEdgeStart: number = 0;
+  private readonly startSn: number = 0;
+  private readonly endSn: number;
+  // wall clock (s)
+  private time: number = 0;
+  private started: boolean = false;
+  private stalled: boolean = false;
+  private startupDelay: number = 0;
+  private stallCount: number = 0;
+  private stallDuration: number = 0;
+  private lastDecision: AbrDecisionData | null = null;
+  private segments: SimulatedSegment[] = [];
+
+  constructor(options: SimulationOptions) {
+    const { trace, bitrates } = options;
+    if (!bitrates.length) {
+      throw new Error('Simulation needs at least one level');
+    }
+    this.network = new NetworkModel(trace);
+    this.segmentDuration = options.segmentDuration || 2;
+    this.partsPerSegment = Math.max(1, options.partsPerSegment || 4);
+    this.playlistType = options.playlistType || 'live';
+    const config = Object.assign({}, options.config);
+    if (options.abrRule) {
+      config.abrRule = options.abrRule;
+    }
+    const isLive = this.playlistType !== 'vod';
+    const levels = bitrates.map((bitrate, i) =>
+      this.createLevel(bitrate, i, isLive)
+    );
+    this.media = new SimulatedMedia();
+    this.hls = new SimulatedHls(levels, this.media, isLive, null, config);
+
+    const { segmentDuration } = this;
+    const duration = options.duration || trace.duration;
+    if (isLive) {
+      const targetLatency =
+        options.targetLatency ??
+        (this.hls.config as HlsConfig & LowLatencyABRConfig).abrCatchUp
+          .targetLatency;
+      this.hls.targetLatency = targetLatency;
+      this.hls.maxLatency = targetLatency * 2;
+      this.liveEdgeStart =
+        Math.ceil((targetLatency + segmentDuration) / segmentDuration) *
+        segmentDuration;
+      this.startSn = Math.max(
+        0,
+        Math.floor((this.liveEdgeStart - targetLatency) / segmentDuration)
+      );
+    }
+    this.media.currentTime = this.startSn * segmentDuration;
+    this.endSn = this.startSn + Math.ceil(duration / segmentDuration);
+
+    // the abandon timer sees the buffer and the latency of the time it runs at
+    this.hls.player.onBeforeInterval = (time) => this.play(time / 1000);
+    // AbrEvents share the hls event bus, as triggerAbrEvent does
+    const abrEvents = this.hls as unknown as AbrEventEmitter;
+    abrEvents.on(AbrEvents.ABR_DECISION, this.onAbrDecision, this);
+    abrEvents.on(AbrEvents.QOE_UPDATED, this.onQoeUpdated, this);
+  }
+
+  /**
+   * Plays the whole stream and tears the controller down
+   * @return {SimulationResult}
+   */
+  run(): SimulationResult {
+    const { hls } = this;
+    let level = -1;
+    for (let sn = this.startSn; sn < this.endSn; sn++) {
+      this.waitForRequest(sn, 0);
+      const nextLevel = this.selectLevel(sn, true);
+      if (nextLevel !== level) {
+        hls.trigger(
+          Events.LEVEL_SWITCHING,
+          Object.assign({}, hls.levels[nextLevel], { level: nextLevel })
+        );
+        level = nextLevel;
+      }
+      this.loadSegment(sn, level);
+      hls.currentLevel = level;
+    }
+    // play out the buffer
+    this.advance(
+      this.time +
+        (this.media.bufferEnd - this.media.currentTime) /
+          this.media.playbackRate,
+      true
+    );
+    const result = this.getResult();
+    hls.destroy();
+    return result;
+  }
+
+  private createLevel(bitrate: number, id: number, isLive: boolean): Level {
+    const details = new LevelDetails('');
+    details.live = isLive;
+    details.type =
+      this.playlistType === 'vod'
+        ? 'VOD'
+        : this.playlistType === 'event'
+        ? 'EVENT'
+        : null;
+    details.targetduration = this.segmentDuration;
+    details.averagetargetduration = this.segmentDuration;
+    details.partTarget = this.segmentDuration / this.partsPerSegment;
+    return new Level({
+      attrs: new AttrList({ BANDWIDTH: String(bitrate) }),
+      bitrate,
+      details,
+      id,
+      name: `${Math.round(bitrate / 1000)}k`,
+      url: '',
+    });
+  }
+
+  /**
+   * Waits for the buffer to drain below maxBufferLength and, when live, for the part to be announced
+   * by a preload hint
+   * @param {number} sn
+   * @param {number} part - index of the part in the segment
+   */
+  private waitForRequest(sn: number, part: number) {
+    const { media } = this;
+    const maxBufferLength = this.hls.config.maxBufferLength;
+    const bufferLevel = media.bufferEnd - media.currentTime;
+    let requestTime = this.time;
+    if (this.started && bufferLevel > maxBufferLength) {
+      requestTime += (bufferLevel - maxBufferLength) / media.playbackRate;
+    }
+    if (this.playlistType !== 'vod') {
+      requestTime = Math.max(requestTime, this.getProductionTime(sn, part));
+    }
+    this.advance(requestTime);
+  }
+
+  /**
+   * Asks the controller for the level of the next part, as hls.js does before every part request.
+   * Only the first part of a segment is independent: the level changes at segment boundaries, where
+   * the level forced by an abandoned request is taken.
+   * @param {number} sn
+   * @param {boolean} segmentStart - whether the part is the first of its segment
+   * @return {number}
+   */
+  private selectLevel(sn: number, segmentStart: boolean): number {
+    const { hls } = this;
+    this.lastDecision = null;
+    if (sn === this.startSn && segmentStart) {
+      // hls.js starts at the first level of the manifest when startLevel is not set
+      const startLevel = hls.config.startLevel ?? 0;
+      return Math.min(Math.max(startLevel, 0), hls.maxAutoLevel);
+    }
+    let forcedLevel = -1;
+    if (segmentStart) {
+      forcedLevel = hls.nextLoadLevel;
+      hls.nextLoadLevel = -1;
+    }
+    const nextLevel =
+      forcedLevel !== -1 ? forcedLevel : hls.abrController.nextAutoLevel;
+    return Math.min(Math.max(nextLevel, hls.minAutoLevel), hls.maxAutoLevel);
+  }
+
+  /**
+   * Loads a segment part by part, with a decision before every part
+   * @param {number} sn
+   * @param {number} level
+   */
+  private loadSegment(sn: number, level: number) {
+    const { hls, media, segmentDuration, partsPerSegment } = this;
+    const bitrate = hls.levels[level].bitrate;
+    const frag = new Fragment(PlaylistLevelType.MAIN, '');
+    frag.sn = sn;
+    frag.level = level;
+    frag.cc = 0;
+    frag.start = sn * segmentDuration;
+    frag.duration = segmentDuration;
+    frag.relurl = `${level}/${sn}.m4s`;
+    const stallDurationBefore = this.stallDuration;
+    // recorded before its parts load: the QoE of the segment is computed at the next decision
+    const segment: SimulatedSegment = {
+      sn,
+      level,
+      bitrate,
+      duration: segmentDuration,
+      requestTime: this.time,
+      loadedTime: NaN,
+      throughput: NaN,
+      bandwidthEstimate: NaN,
+      bufferLevel: NaN,
+      latency: NaN,
+      playbackRate: NaN,
+      stallDuration: 0,
+      decision: this.lastDecision,
+      qoe: null,
+    };
+    this.segments.push(segment);
+
+    const partDuration = segmentDuration / partsPerSegment;
+    let part: Part | undefined;
+    let transferTime = 0;
+    for (let index = 0; index < partsPerSegment; index++) {
+      if (index > 0) {
+        this.waitForRequest(sn, index);
+        // the rules decide for every part, the level only changes with the next segment
+        this.selectLevel(sn, false);
+      }
+      part = new Part(
+        new AttrList({
+          DURATION: String(partDuration),
+          INDEPENDENT: index === 0 ? 'YES' : 'NO',
+          URI: `${level}/${sn}.${index}.m4s`,
+        }),
+        frag,
+        '',
+        index,
+        part
+      );
+      transferTime += this.loadPart(frag, part, bitrate);
+    }
+
+    segment.loadedTime = this.time;
+    segment.throughput =
+      (frag.stats.loaded * 8) / Math.max(transferTime, 1e-3);
+    segment.bandwidthEstimate = hls.bandwidthEstimate;
+    segment.bufferLevel = media.bufferEnd - media.currentTime;
+    segment.latency = hls.latency;
+    segment.playbackRate = media.playbackRate;
+    segment.stallDuration = this.stallDuration - stallDurationBefore;
+  }
+
+  /**
+   * Requests a part and appends it once received. A live part is requested through its preload
+   * hint and sent once published, at link speed.
+   * @param {Fragment} frag
+   * @param {Part} part
+   * @param {number} bitrate - bps
+   * @return {number} s, from the first to the last byte
+   */
+  private loadPart(frag: Fragment, part: Part, bitrate: number): number {
+    const { hls, media, network } = this;
+    const { stats } = part;
+    const partBytes = (bitrate * part.duration) / 8;
+    stats.loading.start = this.time * 1000;
+    hls.trigger(Events.FRAG_LOADING, {
+      frag,
+      part,
+      targetBufferTime: part.start,
+    });
+
+    let start = this.time + network.trace.rtt / 1000;
+    if (this.playlistType !== 'vod') {
+      start = Math.max(
+        start,
+        this.getProductionTime(frag.sn as number, part.index + 1)
+      );
+    }
+    const end = network.transferEnd(start, partBytes);
+    this.advance(end);
+    stats.loading.first = start * 1000;
+    stats.loading.end = end * 1000;
+    stats.parsing.start = stats.parsing.end = end * 1000;
+    stats.buffering.start = stats.buffering.first = end * 1000;
+    stats.buffering.end = end * 1000;
+    stats.loaded = stats.total = partBytes;
+    // one CMAF chunk per part: its moof and mdat timestamps
+    stats.chunkCount = 1;
+    stats.startTimeData.push({ timestamp: start * 1000, len: partBytes });
+    stats.endTimeData.push({ timestamp: end * 1000, len: partBytes });
+    stats.boxLoaded = partBytes;
+    addPartStats(frag, part);
+
+    hls.trigger(Events.FRAG_LOADED, {
+      frag,
+      part,
+      payload: new ArrayBuffer(0),
+      networkDetails: null,
+    });
+    media.buffered.add(part.start, part.start + part.duration);
+    this.resumeIfBuffered();
+    hls.trigger(Events.FRAG_PARSED, { frag, part });
+    hls.trigger(Events.FRAG_BUFFERED, { stats, frag, part, id: frag.type });
+    return end - start;
+  }
+
+  /**
+   * Moves the wall clock forward, playing the buffer and running the controller timers due on the way
+   * @param {number} time
+   * @param {boolean} ending - the buffer running out is the end of the stream, not a stall
+   */
+  private advance(time: number, ending: boolean = false) {
+    this.hls.player.advanceTo(time * 1000);
+    this.play(time, ending);
+  }
+
+  /**
+   * Moves the wall clock forward, playing the buffer and accounting stalls
+   * @param {number} time
+   * @param {boolean} ending - the buffer running out is the end of the stream, not a stall
+   */
+  private play(time: number, ending: boolean = false) {
+    const { media } = this;
+    const elapsed = time - this.time;
+    if (elapsed <= 0) {
+      return;
+    }
+    if (this.started && !this.stalled) {
+      const playbackRate = media.playbackRate || 1;
+      const available = media.bufferEnd - media.currentTime;
+      if (available >= elapsed * playbackRate) {
+        media.currentTime += elapsed * playbackRate;
+      } else {
+        media.currentTime += available;
+        if (!ending) {
+          this.stalled = true;
+          this.stallCount++;
+          this.stallDuration += elapsed - available / playbackRate;
+          media.readyState = 2;
+          this.hls.trigger(Events.ERROR, {
+            type: ErrorTypes.MEDIA_ERROR,
+            details: ErrorDetails.BUFFER_STALLED_ERROR,
+            fatal: false,
+            buffer: 0,
+          });
+        }
+      }
+    } else if (this.stalled) {
+      this.stallDuration += elapsed;
+    }
+    this.time = time;
+    this.updateLatency();
+  }
+
+  /**
+   * Starts or resumes playback once a part is buffered ahead of the playhead
+   */
+  private resumeIfBuffered() {
+    const { media } = this;
+    const partDuration = this.segmentDuration / this.partsPerSegment;
+    if (media.bufferEnd - media.currentTime < partDuration - 1e-6) {
+      return;
+    }
+    if (!this.started) {
+      this.started = true;
+      this.startupDelay = this.time;
+      media.paused = false;
+    }
+    this.stalled = false;
+    media.readyState = 4;
+    this.updateLatency();
+  }
+
+  private updateLatency() {
+    const { hls } = this;
+    if (this.playlistType !== 'vod') {
+      hls.latency = this.liveEdgeStart + this.time - this.media.currentTime;
+    }
+  }
+
+  /**
+   * Returns the wall clock (s) at which a part of a live segment starts being produced
+   * @param {number} sn
+   * @param {number} part
+   * @return {number}
+   */
+  private getProductionTime(sn: number, part: number): number {
+    const partDuration = this.segmentDuration / this.partsPerSegment;
+    return (
+      sn * this.segmentDuration + part * partDuration - this.liveEdgeStart
+    );
+  }
+
+  private onAbrDecision(event: AbrEvents.ABR_DECISION, data: AbrDecisionData) {
+    this.lastDecision = data;
+  }
+
+  private onQoeUpdated(event: AbrEvents.QOE_UPDATED, data: AbrQoeData) {
+    const segment = this.segments.find(
+      (segment) => segment.sn === data.sn && segment.level === data.level
+    );
+    if (segment) {
+      segment.qoe = data;
+    }
+  }
+
+  private getResult(): SimulationResult {
+    const { segments } = this;
+    const count = segments.length;
+    let switchCount = 0;
+    let bitrateSum = 0;
+    let latencySum = 0;
+    segments.forEach((segment, i) => {
+      bitrateSum += segment.bitrate / 1000;
+      latencySum += segment.latency;
+      if (i > 0 && segment.level !== segments[i - 1].level) {
+        switchCount++;
+      }
+    });
+    return {
+      abrRule: this.hls.abrController.abrRule,
+      trace: this.network.trace.name,
+      playlistType: this.playlistType,
+      segments,
+      startupDelay: this.startupDelay,
+      stallCount: this.stallCount,
+      stallDuration: this.stallDuration,
+      averageBitrate: count ? bitrateSum / count : 0,
+      switchCount,
+      averageLatency: count ? latencySum / count : 0,
+      qoe: this.hls.abrController.qoeSummary,
+    };
+  }
+}
+
+/**
+ * Runs one simulation
+ * @param {SimulationOptions} options
+ * @return {SimulationResult}
+ */
+export function runSimulation(options: SimulationOptions): SimulationResult {
+  return new AbrSimulator(options).run();
+}
+
+/**
+ * Accounts a loaded part in the stats of its segment, as FragmentLoader does
+ * @param {Fragment} frag
+ * @param {Part} part
+ */
+function addPartStats(frag: Fragment, part: Part) {
+  const fragStats = frag.stats;
+  const partStats = part.stats;
+  fragStats.loaded += partStats.loaded;
+  fragStats.total = Math.max(fragStats.loaded, fragStats.total);
+  fragStats.startTimeData.push(...partStats.startTimeData);
+  fragStats.endTimeData.push(...partStats.endTimeData);
+  fragStats.boxLoaded += partStats.boxLoaded;
+  if (part.index === 0) {
+    fragStats.loading.start = partStats.loading.start;
+    fragStats.loading.first = partStats.loading.first;
+  }
+  fragStats.loading.end = partStats.loading.end;
+}
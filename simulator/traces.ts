@@ -0,0 +1,342 @@
+export type TraceFormat = 'mahimahi' | 'fcc' | 'hsdpa' | 'scenario';
+
+export interface TraceSample {
+  // start of the sample (s from the beginning of the trace)
+  time: number;
+  // available bandwidth (bps) until the next sample
+  bandwidth: number;
+}
+
+/**
+ * Piecewise constant bandwidth, looped when a simulation outlasts it
+ */
+export interface NetworkTrace {
+  name: string;
+  samples: TraceSample[];
+  // s
+  duration: number;
+  // request round trip time (ms)
+  rtt: number;
+}
+
+export interface TraceScenarioEvent {
+  type: 'drop' | 'spike';
+  // start (s) and duration (s) of the event
+  at: number;
+  duration: number;
+  // bandwidth (bps) during the event, or factor applied to the baseline bandwidth
+  bandwidth?: number;
+  factor?: number;
+}
+
+/**
+ * JSON scenario for synthetic traces: a baseline bandwidth with drops and spikes over it
+ */
+export interface TraceScenario {
+  name?: string;
+  // s
+  duration: number;
+  // baseline bandwidth (bps)
+  bandwidth: number;
+  // ms
+  rtt?: number;
+  events?: TraceScenarioEvent[];
+}
+
+export type TraceParseOptions = {
+  name?: string;
+  // request round trip time (ms), 0 by default
+  rtt?: number;
+  // mahimahi only: width (ms) of the windows packets are counted in
+  binMs?: number;
+};
+
+// mahimahi delivery opportunities are one MTU each
+const MAHIMAHI_PACKET_BYTES = 1500;
+
+/**
+ * Parses a trace in one of the supported formats
+ * @param {string} text - trace file content (JSON for scenarios)
+ * @param {TraceFormat} format
+ * @param {TraceParseOptions} options
+ * @return {NetworkTrace}
+ */
+export function parseTrace(
+  text: string,
+  format: TraceFormat,
+  options: TraceParseOptions = {}
+): NetworkTrace {
+  switch (format) {
+    case 'mahimahi':
+      return parseMahimahiTrace(text, options);
+    case 'fcc':
+      return parseFccTrace(text, options);
+    case 'hsdpa':
+      return parseHsdpaTrace(text, options);
+    case 'scenario':
+      return parseScenario(JSON.parse(text), options);
+    default:
+      throw new Error(`Unknown trace format "${format}"`);
+  }
+}
+
+/**
+ * Mahimahi link trace: one line per 1500 bytes delivery opportunity, holding its timestamp (ms).
+ * Opportunities are counted in binMs windows (1000 ms by default).
+ * @param {string} text
+ * @param {TraceParseOptions} options
+ * @return {NetworkTrace}
+ */
+export function parseMahimahiTrace(
+  text: string,
+  options: TraceParseOptions = {}
+): NetworkTrace {
+  const binMs = options.binMs || 1000;
+  const packets: number[] = [];
+  getLines(text).forEach(({ line, index }) => {
+    const timestamp = Number(line);
+    if (!Number.isFinite(timestamp) || timestamp < 0) {
+      throw new Error(`Invalid mahimahi trace at line ${index}: "${line}"`);
+    }
+    const bin = Math.floor(timestamp / binMs);
+    packets[bin] = (packets[bin] || 0) + 1;
+  });
+  if (!packets.length) {
+    throw new Error('Invalid mahimahi trace: no delivery opportunity');
+  }
+  const samples: TraceSample[] = [];
+  for (let bin = 0; bin < packets.length; bin++) {
+    samples.push({
+      time: (bin * binMs) / 1000,
+      bandwidth:
+        ((packets[bin] || 0) * MAHIMAHI_PACKET_BYTES * 8 * 1000) / binMs,
+    });
+  }
+  return createTrace(samples, (packets.length * binMs) / 1000, options);
+}
+
+/**
+ * FCC broadband trace as used in ABR research: one "time_s throughput_mbps" line per sample
+ * @param {string} text
+ * @param {TraceParseOptions} options
+ * @return {NetworkTrace}
+ */
+export function parseFccTrace(
+  text: string,
+  options: TraceParseOptions = {}
+): NetworkTrace {
+  return parseTimeThroughputTrace(text, 'fcc', options);
+}
+
+/**
+ * HSDPA/4G trace, either the raw logs of Riiser et al. ("unix_time elapsed_ms lat lon bytes interval_ms")
+ * or their "time_s throughput_mbps" conversion
+ * @param {string} text
+ * @param {TraceParseOptions} options
+ * @return {NetworkTrace}
+ */
+export function parseHsdpaTrace(
+  text: string,
+  options: TraceParseOptions = {}
+): NetworkTrace {
+  const lines = getLines(text);
+  if (!lines.length || lines[0].line.split(/[\s,]+/).length < 6) {
+    return parseTimeThroughputTrace(text, 'hsdpa', options);
+  }
+  const samples: TraceSample[] = [];
+  let duration = 0;
+  lines.forEach(({ line, index }) => {
+    const columns = line.split(/[\s,]+/).map(Number);
+    const [, elapsedMs, , , bytes, intervalMs] = columns;
+    if (
+      columns.length < 6 ||
+      !(elapsedMs >= 0) ||
+      !(bytes >= 0) ||
+      !(intervalMs > 0)
+    ) {
+      throw new Error(`Invalid hsdpa trace at line ${index}: "${line}"`);
+    }
+    // each line reports the bytes received during the interval that ended at elapsedMs
+    const start = Math.max(0, elapsedMs - intervalMs) / 1000;
+    samples.push({ time: start, bandwidth: (bytes * 8 * 1000) / intervalMs });
+    duration = Math.max(duration, elapsedMs / 1000);
+  });
+  return createTrace(samples, duration, options);
+}
+
+/**
+ * Builds a trace from a JSON scenario
+ * @param {TraceScenario} scenario
+ * @param {TraceParseOptions} options
+ * @return {NetworkTrace}
+ */
+export function parseScenario(
+  scenario: TraceScenario,
+  options: TraceParseOptions = {}
+): NetworkTrace {
+  const { duration, bandwidth } = scenario;
+  const events = scenario.events || [];
+  if (!(duration > 0) || !(bandwidth >= 0)) {
+    throw new Error(
+      'Invalid trace scenario: "duration" and "bandwidth" must be positive numbers'
+    );
+  }
+  events.forEach((event, i) => {
+    if (
+      (event.type !== 'drop' && event.type !== 'spike') ||
+      !(event.at >= 0) ||
+      !(event.duration > 0) ||
+      !(getEventBandwidth(event, bandwidth) >= 0)
+    ) {
+      throw new Error(
+        `Invalid trace scenario event ${i}: expected { type: 'drop' | 'spike', at, duration, bandwidth | factor }`
+      );
+    }
+  });
+  const boundaries = [0, duration];
+  events.forEach((event) => {
+    boundaries.push(event.at, event.at + event.duration);
+  });
+  const times = boundaries
+    .filter((time, i) => time < duration && boundaries.indexOf(time) === i)
+    .sort((a, b) => a - b);
+  const samples = times.map((time) => {
+    let sampleBandwidth = bandwidth;
+    // later events override earlier ones
+    events.forEach((event) => {
+      if (time >= event.at && time < event.at + event.duration) {
+        sampleBandwidth = getEventBandwidth(event, bandwidth);
+      }
+    });
+    return { time, bandwidth: sampleBandwidth };
+  });
+  return createTrace(samples, duration, {
+    name: options.name || scenario.name,
+    rtt: options.rtt ?? scenario.rtt,
+  });
+}
+
+/**
+ * Replays a trace to compute transfer times
+ */
+export class NetworkModel {
+  public readonly trace: NetworkTrace;
+
+  constructor(trace: NetworkTrace) {
+    this.trace = trace;
+  }
+
+  /**
+   * Returns the bandwidth (bps) available at a time (s)
+   * @param {number} time
+   * @return {number}
+   */
+  bandwidthAt(time: number): number {
+    const { samples } = this.trace;
+    return samples[this.getSampleIndex(time % this.trace.duration)].bandwidth;
+  }
+
+  /**
+   * Returns the time (s) at which a transfer started at `start` (s) has received `bytes`
+   * @param {number} start
+   * @param {number} bytes
+   * @return {number}
+   */
+  transferEnd(start: number, bytes: number): number {
+    const { samples, duration } = this.trace;
+    let remaining = bytes * 8;
+    let time = start;
+    while (remaining > 0) {
+      const loopStart = Math.floor(time / duration) * duration;
+      const index = this.getSampleIndex(time - loopStart);
+      const sampleEnd =
+        loopStart +
+        (index + 1 < samples.length ? samples[index + 1].time : duration);
+      const { bandwidth } = samples[index];
+      const capacity = bandwidth * (sampleEnd - time);
+      if (capacity >= remaining) {
+        return time + remaining / bandwidth;
+      }
+      remaining -= capacity;
+      time = sampleEnd;
+    }
+    return time;
+  }
+
+  private getSampleIndex(offset: number): number {
+    const { samples } = this.trace;
+    let low = 0;
+    let high = samples.length - 1;
+    while (low < high) {
+      const middle = (low + high + 1) >> 1;
+      if (samples[middle].time <= offset) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return low;
+  }
+}
+
+function parseTimeThroughputTrace(
+  text: string,
+  format: TraceFormat,
+  options: TraceParseOptions
+): NetworkTrace {
+  const samples: TraceSample[] = [];
+  getLines(text).forEach(({ line, index }) => {
+    const [time, mbps] = line.split(/[\s,]+/).map(Number);
+    if (!(time >= 0) || !(mbps >= 0)) {
+      throw new Error(`Invalid ${format} trace at line ${index}: "${line}"`);
+    }
+    samples.push({ time, bandwidth: mbps * 1e6 });
+  });
+  const count = samples.length;
+  if (!count) {
+    throw new Error(`Invalid ${format} trace: no sample`);
+  }
+  // the last sample lasts as long as the previous one
+  const lastInterval =
+    count > 1 ? samples[count - 1].time - samples[count - 2].time : 1;
+  return createTrace(samples, samples[count - 1].time + lastInterval, options);
+}
+
+function createTrace(
+  samples: TraceSample[],
+  duration: number,
+  options: TraceParseOptions
+): NetworkTrace {
+  const sorted = samples.slice().sort((a, b) => a.time - b.time);
+  const origin = sorted[0].time;
+  const normalized = sorted.map((sample) => ({
+    time: sample.time - origin,
+    bandwidth: sample.bandwidth,
+  }));
+  if (!normalized.some((sample) => sample.bandwidth > 0)) {
+    throw new Error('Invalid trace: bandwidth is always 0');
+  }
+  return {
+    name: options.name || 'trace',
+    samples: normalized,
+    duration: Math.max(
+      duration - origin,
+      normalized[normalized.length - 1].time
+    ),
+    rtt: options.rtt || 0,
+  };
+}
+
+function getEventBandwidth(event: TraceScenarioEvent, baseline: number) {
+  if (event.bandwidth !== undefined) {
+    return event.bandwidth;
+  }
+  return event.factor !== undefined ? baseline * event.factor : NaN;
+}
+
+function getLines(text: string): Array<{ line: string; index: number }> {
+  return text
+    .split(/\r?\n/)
+    .map((line, i) => ({ line: line.trim(), index: i + 1 }))
+    .filter(({ line }) => line && line.charAt(0) !== '#');
+}
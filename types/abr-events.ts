@@ -0,0 +1,98 @@
+import type {
+  AbrDecisionCandidate,
+  AbrDecisionReason,
+} from './abr-rule';
+import type { Weight } from '../controller/LoLpQoeInfo';
+
+export interface AbrRuleChangedData {
+  abrRule: string;
+  previousAbrRule: string;
+  // level the new rule starts from
+  level: number;
+  // bandwidth estimate (bps) handed over to the new rule
+  bandwidthEstimate: number;
+}
+
+export interface AbrDecisionData {
+  abrRule: string;
+  // chosen level index
+  level: number;
+  // level of the last loaded fragment
+  previousLevel: number;
+  reason: AbrDecisionReason;
+  // bandwidth estimate (bps)
+  throughput: number;
+  // forward buffer (s)
+  bufferLevel: number;
+  latency: number;
+  targetLatency: number | null;
+  playbackRate: number;
+  scoreType?: string;
+  candidates: AbrDecisionCandidate[];
+  details?: Record<string, number>;
+  // secondary rule that overrode the level of the active rule
+  secondaryRule?: string;
+}
+
+export interface AbrQoeTerms {
+  // bitrate reward minus the four penalties
+  totalQoe: number;
+  bitrateWSum: number;
+  bitrateSwitchWSum: number;
+  rebufferWSum: number;
+  latencyWSum: number;
+  playbackSpeedWSum: number;
+}
+
+export interface AbrQoeData extends AbrQoeTerms {
+  sn: number | 'initSegment';
+  level: number;
+  weights: Weight;
+}
+
+/**
+ * Session metrics as reported in the LoL+ evaluation, the QoE terms are the session weighted sums
+ */
+export interface AbrQoeSessionSummary extends AbrQoeTerms {
+  segmentCount: number;
+  // media duration (s) of the accounted segments
+  duration: number;
+  // kbps
+  averageBitrate: number;
+  switchCount: number;
+  // sum and mean of the absolute bitrate differences of the switches (kbps)
+  switchMagnitude: number;
+  averageSwitchMagnitude: number;
+  // segments whose download outlasted their duration, and the sum of the excess (s)
+  stallCount: number;
+  stallDuration: number;
+  averageLatency: number;
+  // mean of |1 - playbackRate|
+  averagePlaybackSpeedDeviation: number;
+}
+
+export type NetworkRegime = 'stable' | 'volatile' | 'degrading' | 'recovering';
+
+/**
+ * Signals the network regime is classified on, computed over the classifier window
+ */
+export interface NetworkRegimeSignals {
+  // bps, mean of the bandwidth estimates
+  throughputMean: number;
+  // standard deviation / mean of the bandwidth estimates
+  throughputCv: number;
+  // relative change from the older to the newer half of the window
+  throughputTrend: number;
+  // stalls while the window samples were buffered
+  stallCount: number;
+  // s
+  latency: number;
+}
+
+export interface NetworkRegimeChangedData extends NetworkRegimeSignals {
+  regime: NetworkRegime;
+  // null for the first classification
+  previousRegime: NetworkRegime | null;
+  // rule the decisions are routed to
+  abrRule: string;
+}
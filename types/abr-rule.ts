@@ -0,0 +1,218 @@
+import type { AbrHlsConfig } from '../abr-config';
+import type { Fragment, Part } from '../loader/fragment';
+import type { FragBufferedData, FragLoadedData } from './events';
+import type { PlayerContext } from './player-context';
+
+/**
+ * Inputs handed to an ABR rule at every segment/part boundary
+ */
+export interface AbrRuleContext {
+  // buffer, levels, latency, throughput estimate and clock of the player
+  player: PlayerContext;
+  // hls config including the low-latency ABR sections, read at each decision
+  config: AbrHlsConfig;
+  fragCurrent: Fragment | null;
+  partCurrent: Part | null;
+  // index of the level of the last loaded fragment
+  currentQuality: number;
+}
+
+export enum AbrDecisionReason {
+  STARTUP = 'startup',
+  STEADY = 'steady',
+  SOM_BEST_MATCH = 'som-best-match',
+  BUFFER_LOW_DOWNSHIFT = 'buffer-low-downshift',
+  LATENCY_DEAD_TIME = 'latency-dead-time',
+  SWITCH_UP = 'switch-up',
+  SWITCH_DOWN = 'switch-down',
+  HOLD = 'hold',
+  THROUGHPUT = 'throughput',
+  REBUFFER_EXPECTED = 'rebuffer-expected',
+  NO_ESTIMATE = 'no-estimate',
+  NO_FRAGMENT = 'no-fragment',
+  NO_LEVEL_DETAILS = 'no-level-details',
+  UNSUPPORTED_MEDIA = 'unsupported-media',
+  FORCED_LEVEL = 'forced-level',
+  FORCED_CAP = 'forced-cap',
+  // the learned model of the rule is not loaded or does not fit the levels
+  NO_MODEL = 'no-model',
+  // a secondary rule of the pipeline overrode the level of the active rule
+  SECONDARY_RULE = 'secondary-rule',
+  // the rule does not explain its decisions
+  UNSPECIFIED = 'unspecified',
+}
+
+export interface AbrDecisionCandidate {
+  level: number;
+  // level bitrate (bps)
+  bitrate: number;
+  // rule specific score, see AbrRuleDecisionInfo.scoreType
+  score: number;
+}
+
+/**
+ * Explanation of the last decision of a rule
+ */
+export interface AbrRuleDecisionInfo {
+  reason: AbrDecisionReason;
+  // meaning of the candidate scores, e.g. 'som-distance' or 'probability'
+  scoreType?: string;
+  candidates?: AbrDecisionCandidate[];
+  // rule specific intermediate values
+  details?: Record<string, number>;
+  // secondary rule that overrode the level, see abrSecondaryRules
+  secondaryRule?: string;
+}
+
+/**
+ * Common lifecycle shared by all ABR rules driven by AbrController
+ */
+export interface AbrRule {
+  // When true, AbrController applies LoL+ playback speed control after each decision
+  readonly playbackRateControl?: boolean;
+
+  // Called once, before the first decision, when the rule becomes active
+  init(context: AbrRuleContext): void;
+
+  // Called by AbrController for every main fragment (or part) loaded
+  onFragLoaded?(data: FragLoadedData): void;
+
+  // Called by AbrController for every main fragment (or part) buffered
+  onFragBuffered?(data: FragBufferedData): void;
+
+  // Called by AbrController when playback stalls on an empty buffer
+  onBufferStalled?(): void;
+
+  // Called by AbrController when the player switches to another level
+  onLevelSwitching?(level: number): void;
+
+  // Returns the index of the level to load next
+  getNextQuality(context: AbrRuleContext): number;
+
+  // Explains the last getNextQuality result
+  getDecisionInfo?(): AbrRuleDecisionInfo | null;
+
+  // Returns a serializable snapshot of the learned state, null if there is nothing to export yet
+  exportState?(): unknown;
+
+  // Restores a snapshot returned by exportState, possibly from a previous session
+  importState?(state: unknown): void;
+
+  // Releases listeners and state; the instance is not reused afterwards
+  destroy(): void;
+}
+
+export interface AbrRuleClass {
+  new (player: PlayerContext): AbrRule;
+}
+
+export type AbrRuleClassMap = Record<string, AbrRuleClass>;
+
+// quality of a switch request that leaves the decision to the other rules
+export const ABR_NO_CHANGE = -1;
+
+/**
+ * Weight of a switch request: only the requests of the highest priority present are combined
+ */
+export enum AbrSwitchPriority {
+  WEAK = 0,
+  DEFAULT = 0.5,
+  STRONG = 1,
+}
+
+export interface AbrSwitchRequest {
+  // level index, ABR_NO_CHANGE to abstain
+  quality: number;
+  priority: AbrSwitchPriority;
+  reason?: string;
+}
+
+// how the requests of the winning priority are combined
+export type AbrRuleCombinator = 'min' | 'max';
+
+/**
+ * Secondary rule of the pipeline (dash.js rules collection), combined with the active AbrRule
+ */
+export interface AbrSwitchRule {
+  onFragLoaded?(data: FragLoadedData): void;
+
+  onFragBuffered?(data: FragBufferedData): void;
+
+  onBufferStalled?(): void;
+
+  onLevelSwitching?(level: number): void;
+
+  // Request for the next decision, combined with the level chosen by the active rule
+  getSwitchRequest?(context: AbrRuleContext): AbrSwitchRequest;
+
+  // Polled while a fragment loads, a quality below the fragment level abandons the request
+  shouldAbandon?(context: AbrRuleContext): AbrSwitchRequest;
+
+  // Called once per loaded part (or segment) with the level of the previous one and its level
+  onDecision?(previousQuality: number, quality: number): void;
+
+  destroy(): void;
+}
+
+export interface AbrSwitchRuleClass {
+  new (player: PlayerContext): AbrSwitchRule;
+}
+
+export type AbrRuleConfig = {
+  // Name of the rule used by AbrController (a key of the rule registry)
+  abrRule: string;
+  // Additional rule classes, merged over the built-in ones by name
+  abrRules: AbrRuleClassMap;
+  // Rules evaluated alongside abrRule on the same inputs; their decisions are recorded, never applied
+  abrShadowRules: string[];
+  // Number of shadow decisions kept per rule, the oldest are dropped first
+  abrShadowTraceLength: number;
+  // Secondary rules combined with abrRule at each decision, e.g. InsufficientBufferRule
+  abrSecondaryRules: string[];
+  // Additional secondary rule classes, merged over the built-in ones by name
+  abrSwitchRules: Record<string, AbrSwitchRuleClass>;
+  // Combination of the requests of the highest priority: lowest ('min') or highest ('max') level
+  abrRuleCombinator: AbrRuleCombinator;
+};
+
+export type AbrRuleSwitchOptions = {
+  // Keep the current bandwidth estimate instead of restarting from abrEwmaDefaultEstimate (default true)
+  keepBandwidthEstimate?: boolean;
+  // Let the new rule start from the current level instead of minAutoLevel (default true)
+  keepLevel?: boolean;
+};
+
+/**
+ * What a rule evaluated in shadow mode would have chosen at a segment/part boundary
+ */
+export interface AbrShadowDecision {
+  abrRule: string;
+  // fragment (and part) the decision was taken after, -1 when unknown
+  sn: number;
+  part: number;
+  // player clock (ms)
+  time: number;
+  // level the rule would have loaded
+  level: number;
+  reason: AbrDecisionReason;
+  // rule and level actually used for playback
+  activeAbrRule: string;
+  activeLevel: number;
+}
+
+/**
+ * Agreement of a shadow rule with the active one over the recorded decisions
+ */
+export interface AbrShadowStats {
+  abrRule: string;
+  decisionCount: number;
+  disagreementCount: number;
+  // disagreementCount / decisionCount, 0 without decisions
+  disagreementRate: number;
+  // decisions above and below the active level
+  higherCount: number;
+  lowerCount: number;
+  // mean of (level - activeLevel) and of its absolute value
+  meanLevelDifference: number;
+  meanAbsoluteLevelDifference: number;
+}
@@ -0,0 +1,82 @@
+import type { BufferInfo } from '../utils/buffer-helper';
+
+export interface PlayerSegment {
+  sn: number | 'initSegment';
+  // s
+  duration: number;
+}
+
+export interface PlayerPart {
+  // segment the part belongs to
+  fragment: PlayerSegment;
+  // index of the part in its segment
+  index: number;
+  // s
+  duration: number;
+}
+
+export interface PlayerLevelDetails {
+  live: boolean;
+  // EXT-X-PLAYLIST-TYPE: 'VOD', 'EVENT' or null
+  type: string | null;
+  // EXT-X-TARGETDURATION (s)
+  targetduration?: number;
+  // EXT-X-PART-INF PART-TARGET (s), 0 without parts
+  partTarget?: number;
+  // segments of the playlist, in order
+  fragments?: PlayerSegment[];
+  // parts of the last segments, null without parts
+  partList?: PlayerPart[] | null;
+}
+
+export interface PlayerLevel {
+  // bps
+  bitrate: number;
+  // undefined until the level playlist is loaded
+  details?: PlayerLevelDetails;
+}
+
+export interface PlayerPlaybackQuality {
+  droppedVideoFrames: number;
+  totalVideoFrames: number;
+}
+
+/**
+ * Everything the ABR rules read from the player. Backed by hls.js in production
+ * (HlsPlayerContext) and by InMemoryPlayerContext in tests and other players.
+ */
+export interface PlayerContext {
+  // level ladder, indexed by level
+  readonly levels: PlayerLevel[];
+  // level being played, -1 when unknown
+  readonly currentLevel: number;
+  // whether a media element is attached
+  readonly hasMedia: boolean;
+  // playhead position (s)
+  readonly currentTime: number;
+  readonly paused: boolean;
+  readonly seeking: boolean;
+  playbackRate: number;
+  // live or EVENT playlist still being appended to
+  readonly isLive: boolean;
+  // live latency (s), 0 when unknown
+  readonly latency: number;
+  // s, null when not live
+  readonly targetLatency: number | null;
+  readonly maxLatency: number;
+  // bps, NaN when unknown
+  readonly bandwidthEstimate: number;
+
+  // Buffered range around the playhead, holes smaller than maxHoleDuration (s) are ignored
+  getBufferInfo(maxHoleDuration: number): BufferInfo;
+
+  // Frame counters since the media was attached, null when the media does not report them
+  getVideoPlaybackQuality(): PlayerPlaybackQuality | null;
+
+  // Monotonic clock (ms)
+  now(): number;
+
+  setInterval(callback: () => void, delay: number): number;
+
+  clearInterval(id: number | undefined): void;
+}
@@ -0,0 +1,85 @@
+export type AbrStateStorage = 'localStorage' | 'indexedDB';
+
+const DATABASE_NAME = 'hls-abr';
+const STORE_NAME = 'rule-states';
+
+/**
+ * Reads a rule state saved by saveAbrState
+ * @param {AbrStateStorage} storage
+ * @param {string} key
+ * @return {Promise<unknown>} the state, null when none is saved under the key
+ */
+export function loadAbrState(
+  storage: AbrStateStorage,
+  key: string
+): Promise<unknown> {
+  if (storage === 'localStorage') {
+    return new Promise((resolve) => {
+      const json = self.localStorage.getItem(key);
+      resolve(json === null ? null : JSON.parse(json));
+    });
+  }
+  return openDatabase().then(
+    (database) =>
+      new Promise((resolve, reject) => {
+        const request = database
+          .transaction(STORE_NAME, 'readonly')
+          .objectStore(STORE_NAME)
+          .get(key);
+        request.onsuccess = () => {
+          database.close();
+          resolve(request.result ?? null);
+        };
+        request.onerror = () => {
+          database.close();
+          reject(request.error);
+        };
+      })
+  );
+}
+
+/**
+ * Saves a serializable rule state under a key, replacing the previous one
+ * @param {AbrStateStorage} storage
+ * @param {string} key
+ * @param {unknown} state
+ * @return {Promise<void>}
+ */
+export function saveAbrState(
+  storage: AbrStateStorage,
+  key: string,
+  state: unknown
+): Promise<void> {
+  if (storage === 'localStorage') {
+    return new Promise((resolve) => {
+      self.localStorage.setItem(key, JSON.stringify(state));
+      resolve();
+    });
+  }
+  return openDatabase().then(
+    (database) =>
+      new Promise((resolve, reject) => {
+        const transaction = database.transaction(STORE_NAME, 'readwrite');
+        transaction.objectStore(STORE_NAME).put(state, key);
+        transaction.oncomplete = () => {
+          database.close();
+          resolve();
+        };
+        transaction.onerror = () => {
+          database.close();
+          reject(transaction.error);
+        };
+      })
+  );
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = self.indexedDB.open(DATABASE_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
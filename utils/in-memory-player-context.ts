@@ -0,0 +1,113 @@
+import type { BufferInfo } from './buffer-helper';
+import type {
+  PlayerContext,
+  PlayerLevel,
+  PlayerPlaybackQuality,
+} from '../types/player-context';
+
+interface ScheduledInterval {
+  callback: () => void;
+  delay: number;
+  due: number;
+}
+
+/**
+ * PlayerContext with plain mutable fields and a manual clock, for driving ABR rules
+ * without hls.js or a media element. Intervals only run when advance() is called.
+ */
+export default class InMemoryPlayerContext implements PlayerContext {
+  public levels: PlayerLevel[] = [];
+  public currentLevel: number = -1;
+  public hasMedia: boolean = true;
+  public currentTime: number = 0;
+  public paused: boolean = false;
+  public seeking: boolean = false;
+  public playbackRate: number = 1;
+  public isLive: boolean = false;
+  public latency: number = 0;
+  public targetLatency: number | null = null;
+  public maxLatency: number = 0;
+  public bandwidthEstimate: number = NaN;
+  // buffered range containing currentTime (s)
+  public bufferStart: number = 0;
+  public bufferEnd: number = 0;
+  // frame counters, null when not reported
+  public playbackQuality: PlayerPlaybackQuality | null = null;
+  // clock (ms)
+  public time: number = 0;
+  private intervals: { [id: number]: ScheduledInterval } = {};
+  private nextIntervalId: number = 1;
+
+  constructor(state: Partial<InMemoryPlayerContext> = {}) {
+    Object.assign(this, state);
+  }
+
+  getBufferInfo(maxHoleDuration: number): BufferInfo {
+    const { bufferStart, bufferEnd, currentTime } = this;
+    if (
+      bufferEnd <= bufferStart ||
+      currentTime < bufferStart - maxHoleDuration ||
+      currentTime > bufferEnd
+    ) {
+      return {
+        len: 0,
+        start: currentTime,
+        end: currentTime,
+        nextStart: undefined,
+      };
+    }
+    return {
+      len: bufferEnd - currentTime,
+      start: bufferStart,
+      end: bufferEnd,
+      nextStart: undefined,
+    };
+  }
+
+  getVideoPlaybackQuality(): PlayerPlaybackQuality | null {
+    return this.playbackQuality;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  setInterval(callback: () => void, delay: number): number {
+    const id = this.nextIntervalId++;
+    this.intervals[id] = { callback, delay, due: this.time + delay };
+    return id;
+  }
+
+  clearInterval(id: number | undefined) {
+    if (id !== undefined) {
+      delete this.intervals[id];
+    }
+  }
+
+  /**
+   * Moves the clock forward, running every interval that falls due on the way
+   * @param {number} ms
+   */
+  advance(ms: number) {
+    const end = this.time + ms;
+    for (;;) {
+      let nextId = -1;
+      let nextDue = end;
+      Object.keys(this.intervals).forEach((key) => {
+        const interval = this.intervals[key];
+        if (interval.due <= nextDue) {
+          nextId = Number(key);
+          nextDue = interval.due;
+        }
+      });
+      if (nextId === -1) {
+        break;
+      }
+      const interval = this.intervals[nextId];
+      this.time = nextDue;
+      interval.due += Math.max(interval.delay, 1);
+      interval.callback();
+    }
+    this.time = end;
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * Returns a number in [0, 1), like Math.random
+ */
+export type RandomGenerator = () => number;
+
+/**
+ * Creates a deterministic generator (mulberry32): the same seed always yields the same sequence
+ * @param {number} seed - 32-bit integer
+ * @return {RandomGenerator}
+ */
+export function createSeededRandom(seed: number): RandomGenerator {
+  let state = seed >>> 0;
+  return function () {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}